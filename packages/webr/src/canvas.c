@@ -351,6 +351,9 @@ void canvasNewPage(const pGEcontext gc, pDevDesc RGD)
                 event: 'canvasNewPage',
                 id: $0,
             } });
+        } else if (Module.webr.handleCanvasPage) {
+            // Allow a streaming evaluation to emit previously captured pages
+            Module.webr.handleCanvasPage($0);
         }
     }, cGD->canvas_id);
 }
@@ -3,7 +3,7 @@
 
 extern SEXP ffi_eval_js(SEXP);
 extern SEXP ffi_obj_address(SEXP);
-extern SEXP ffi_new_output_connections(void);
+extern SEXP ffi_new_output_connections(SEXP);
 extern SEXP ffi_dev_canvas(SEXP, SEXP, SEXP, SEXP, SEXP, SEXP);
 extern SEXP ffi_dev_canvas_purge(void);
 extern SEXP ffi_dev_canvas_cache(void);
@@ -19,7 +19,7 @@ static
 const R_CallMethodDef CallEntries[] = {
   { "ffi_eval_js",                (DL_FUNC) &ffi_eval_js,                1},
   { "ffi_obj_address",            (DL_FUNC) &ffi_obj_address,            1},
-  { "ffi_new_output_connections", (DL_FUNC) &ffi_new_output_connections, 0},
+  { "ffi_new_output_connections", (DL_FUNC) &ffi_new_output_connections, 1},
   { "ffi_dev_canvas",             (DL_FUNC) &ffi_dev_canvas,             6},
   { "ffi_dev_canvas_purge",       (DL_FUNC) &ffi_dev_canvas_purge,       0},
   { "ffi_dev_canvas_cache",       (DL_FUNC) &ffi_dev_canvas_cache,       0},
@@ -28,14 +28,17 @@ SEXP ffi_mount_workerfs(SEXP source, SEXP mountpoint) {
   CHECK_STRING(source);
   CHECK_STRING(mountpoint);
 
-  EM_ASM({
+  // Number of bytes downloaded when mounting an image from a URL
+  double bytes = EM_ASM_DOUBLE({
     const source = UTF8ToString($0);
     const mountpoint = UTF8ToString($1);
     try {
-      if (ENVIRONMENT_IS_NODE && !/^https?:/.test(source)) {
+      if (/^file:/.test(source)) {
+        Module.mountImageVFS(source.replace(/^file:(\/\/)?/, ''), mountpoint);
+      } else if (ENVIRONMENT_IS_NODE && !/^https?:/.test(source)) {
         Module.mountImagePath(source, mountpoint);
       } else {
-        Module.mountImageUrl(source, mountpoint);
+        return Module.mountImageUrl(source, mountpoint);
       }
     } catch (e) {
       let msg = e.message;
@@ -45,9 +48,10 @@ SEXP ffi_mount_workerfs(SEXP source, SEXP mountpoint) {
       }
       Module._Rf_error(Module.allocateUTF8OnStack(msg));
     }
+    return -1;
   }, R_CHAR(STRING_ELT(source, 0)), R_CHAR(STRING_ELT(mountpoint, 0)));
 
-  return R_NilValue;
+  return bytes < 0 ? R_NilValue : Rf_ScalarReal(bytes);
 #else
   Rf_error("Function must be running under Emscripten.");
 #endif
@@ -8,7 +8,8 @@
  *
  * Each line of stream output is stored as a separate element in the output
  * vector. The writes are buffered and written out to a new element whenever a
- * newline character is sent to the connection.
+ * newline character is sent to the connection. If an `emit` function has been
+ * provided, it is also called with each new element as soon as it is stored.
  *
  * The source for the outputConnection output_ callback functions were
  * originally based on the dummy_ callbacks in R's /src/main/connections.c
@@ -21,11 +22,15 @@
 #include <R_ext/Connections.h>
 #include "decl/outputconnection-decl.h"
 
-SEXP ffi_new_output_connections(void) {
+SEXP ffi_new_output_connections(SEXP emit) {
   Rconnection out_con_stdout;
   Rconnection out_con_stderr;
 
-  const char *names[] = { "stdout", "stderr", "vec", "n", "" };
+  if (emit != R_NilValue && !Rf_isFunction(emit)) {
+    Rf_error("`emit` must be a function or `NULL`.");
+  }
+
+  const char *names[] = { "stdout", "stderr", "vec", "n", "emit", "" };
   SEXP out = PROTECT(Rf_mkNamed(VECSXP, names));
   SET_VECTOR_ELT(
     out, 0, R_new_custom_connection("stdout", "w", "outputConnection", &out_con_stdout)
@@ -35,6 +40,7 @@ SEXP ffi_new_output_connections(void) {
   );
   SET_VECTOR_ELT(out, 2, Rf_allocVector(VECSXP, 0));
   SET_VECTOR_ELT(out, 3, Rf_ScalarInteger(0));
+  SET_VECTOR_ELT(out, 4, emit);
 
   init_output_connection(out_con_stdout, out);
   init_output_connection(out_con_stderr, out);
@@ -137,6 +143,13 @@ int output_vfprintf(Rconnection con, const char *format, va_list ap) {
       }
       SET_VECTOR_ELT(vec, n, elt);
       SET_INTEGER_ELT(VECTOR_ELT(data->output, 3), 0, n + 1);
+
+      SEXP emit = VECTOR_ELT(data->output, 4);
+      if (emit != R_NilValue) {
+        SEXP call = PROTECT(Rf_lang2(emit, elt));
+        Rf_eval(call, R_GlobalEnv);
+        UNPROTECT(1);
+      }
       UNPROTECT(1);
       data->line = p + 1;
     }
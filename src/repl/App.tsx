@@ -7,7 +7,13 @@ import Files from './components/Files';
 import { Readline } from 'xterm-readline';
 import { WebR } from '../webR/webr-main';
 import { bufferToBase64 } from '../webR/utils';
-import { CanvasMessage, PagerMessage, ViewMessage, BrowseMessage } from '../webR/webr-chan';
+import {
+  CanvasMessage,
+  PagerMessage,
+  ViewMessage,
+  BrowseMessage,
+  InstallProgressMessage,
+} from '../webR/webr-chan';
 import { Panel, PanelGroup, PanelResizeHandle, ImperativePanelHandle } from 'react-resizable-panels';
 import './App.css';
 import { NamedObject, WebRDataJsAtomic } from '../webR/robj';
@@ -20,8 +26,21 @@ const webR = new WebR({
     R_ENABLE_JIT: '0',
     COLORTERM: 'truecolor',
   },
+  onCrash: (error) => {
+    restarting = true;
+    terminalInterface.println(`\x1b[1;31m${error.message}\x1b[m`);
+    terminalInterface.println('Restarting webR...');
+    void webR.restart();
+  },
+  onRestart: () => {
+    void setupSession();
+  },
 });
 (globalThis as any).webR = webR;
+let restarting = false;
+
+// Show package installation progress as it happens, rather than in the output loop
+webR.on('installProgress', (msg) => handleInstallProgress(msg));
 
 export interface TerminalInterface {
   println: Readline['println'];
@@ -137,6 +156,26 @@ async function handleBrowseMessage(msg: BrowseMessage) {
   filesInterface.openHtmlInEditor(content, url);
 }
 
+function handleInstallProgress(msg: InstallProgressMessage) {
+  const { stage, packages, bytes } = msg.data;
+  const size = bytes ? ` (${(bytes / 1024 / 1024).toFixed(1)} MB)` : '';
+  switch (stage) {
+    case 'resolving':
+      terminalInterface.write(`\x1b[2K\rResolving packages: ${packages.join(', ')}`);
+      break;
+    case 'downloading':
+      terminalInterface.write(`\x1b[2K\rDownloading package: ${packages[0]}${size}`);
+      break;
+    case 'mounting':
+    case 'extracting':
+      terminalInterface.write(`\x1b[2K\rInstalling package: ${packages[0]}${size}`);
+      break;
+    case 'done':
+      terminalInterface.write('\x1b[2K\r');
+      break;
+  }
+}
+
 function handleViewMessage(msg: ViewMessage) {
   const { title, data } = msg.data;
   filesInterface.openDataInEditor(title, data);
@@ -310,8 +349,22 @@ function App() {
 const root = ReactDOM.createRoot(document.getElementById('root')!);
 root.render(<StrictMode><App /></StrictMode>);
 
-void (async () => {
-  await webR.init();
+// Refresh the Files pane at a prompt only when the user's home directory has
+// changed since the last refresh, rather than re-reading the whole tree after
+// every command. Only the home directory is watched, so that changes elsewhere
+// in the VFS, such as when installing packages, are not sent from the worker.
+let filesChanged = true;
+async function watchFilesystem() {
+  const watcher = webR.FS.watch('/home/web_user', { recursive: true });
+  while (!(await watcher.next()).done) {
+    filesChanged = true;
+  }
+}
+
+async function setupSession() {
+  // Watch the VFS again after a restart, since watchers end with the worker
+  filesChanged = true;
+  void watchFilesystem();
 
   // Set the default graphics device, browser, and pager
   await webR.evalRVoid('webr::viewer_install()');
@@ -342,6 +395,11 @@ void (async () => {
 
   // Clear the loading message
   terminalInterface.write('\x1b[2K\r');
+}
+
+void (async () => {
+  await webR.init();
+  await setupSession();
 
   for (; ;) {
     const output = await webR.read();
@@ -353,7 +411,10 @@ void (async () => {
         terminalInterface.println(`\x1b[1;31m${output.data as string}\x1b[m`);
         break;
       case 'prompt':
-        void filesInterface.refreshFilesystem();
+        if (filesChanged) {
+          filesChanged = false;
+          void filesInterface.refreshFilesystem();
+        }
         terminalInterface.read(output.data as string).then((command) => {
           webR.writeConsole(command);
         }, (reason) => {
@@ -374,6 +435,11 @@ void (async () => {
         void handleBrowseMessage(output as BrowseMessage);
         break;
       case 'closed':
+        // Further output is read from the restarted worker
+        if (restarting) {
+          restarting = false;
+          break;
+        }
         throw new Error('The webR communication channel has been closed');
       default:
         console.error(`Unimplemented output type: ${output.type}`);
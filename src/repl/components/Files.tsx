@@ -5,7 +5,6 @@ import { Panel } from 'react-resizable-panels';
 import { WebR, WebRError } from '../../webR/webr-main';
 import type { FSNode } from '../../webR/webr-main';
 import { FilesInterface } from '../App';
-import JSZip from 'jszip';
 import './Files.css';
 
 const FolderIcon = ({ isOpen }: { isOpen: boolean }) => isOpen
@@ -56,31 +55,6 @@ export function Files({
   const uploadButtonRef = React.useRef<HTMLButtonElement | null>(null);
   const downloadButtonRef = React.useRef<HTMLButtonElement | null>(null);
 
-  /* Take an `INode` selected from the tree in the UI and create a zip archive
-  * of the contents. Directories are added to the archive recursively.
-  */
-  const zipFromFSNode = async (zip: JSZip, node: INode) => {
-    if (!zip || !node || !treeData) {
-      return;
-    }
-
-    if (node.children && node.children.length > 0) {
-      const dir = zip.folder(node.name);
-      await Promise.all(node.children.map((childId) => {
-        const child = treeData.find((value) => value.id === childId);
-        return zipFromFSNode(dir!, child!);
-      }));
-    } else {
-      const name = node.name;
-      const path = getNodePath(node);
-      await webR.FS.readFile(path).then((data) => {
-        zip.file(name, data, { binary: true });
-      }).catch((error: Error) => {
-        console.warn(`Problem encountered when creating archive: "${error.message}".`);
-      });
-    }
-  };
-
   const nodeRenderer: ITreeViewProps['nodeRenderer'] = ({
     element,
     isExpanded,
@@ -151,12 +125,11 @@ export function Files({
       const path = getNodePath(selectedNode);
       void webR.FS.readFile(path).then((data) => doDownload(selectedNode.name, data));
     } else {
-      void (async () => {
-        const zip = new JSZip();
-        await zipFromFSNode(zip, selectedNode);
-        const data = await zip.generateAsync({type : "uint8array"});
+      // The directory is archived by the webR worker in a single request
+      const path = getNodePath(selectedNode);
+      void webR.FS.exportArchive(path, 'zip').then((data) => {
         doDownload(`${selectedNode.name}.zip`, data);
-      })();
+      });
     }
   };
 
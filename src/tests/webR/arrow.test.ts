@@ -0,0 +1,164 @@
+import {
+  Bool,
+  DateDay,
+  Float64,
+  Int32,
+  Table,
+  TimestampMillisecond,
+  Utf8,
+  tableFromIPC,
+  tableToIPC,
+  vectorFromArray,
+} from 'apache-arrow';
+import {
+  ArrowData,
+  ArrowTable,
+  arrowBitmap,
+  arrowGetInt64,
+  arrowIsValid,
+  arrowSetInt64,
+  arrowUtf8,
+  arrowUtf8Values,
+  arrowView,
+  readArrowStream,
+  writeArrowStream,
+} from '../../webR/arrow';
+
+// Interoperability of the Arrow IPC reader and writer with the reference
+// JavaScript implementation of Apache Arrow
+
+function column(values: (number | null)[], Ctor: Int32ArrayConstructor | Float64ArrayConstructor): ArrowData {
+  const nullCount = values.filter((v) => v === null).length;
+  return {
+    length: values.length,
+    nullCount,
+    buffers: [
+      nullCount > 0 ? arrowBitmap(values.length, (i) => values[i] !== null) : new Uint8Array(),
+      new Uint8Array(Ctor.from(values.map((v) => v ?? 0)).buffer),
+    ],
+  };
+}
+
+function int64Column(values: number[]): ArrowData {
+  const data = new Uint8Array(values.length * 8);
+  const view = new DataView(data.buffer);
+  values.forEach((v, i) => arrowSetInt64(view, i * 8, v));
+  return { length: values.length, nullCount: 0, buffers: [new Uint8Array(), data] };
+}
+
+function numbers(data: ArrowData, Ctor: Int32ArrayConstructor | Float64ArrayConstructor) {
+  const values = arrowView<Int32Array | Float64Array>(data.buffers[1], Ctor);
+  return [...Array(data.length).keys()].map((i) =>
+    arrowIsValid(data.buffers[0], i) ? values[i] : null
+  );
+}
+
+const time = Date.UTC(2024, 0, 2, 3, 4, 5);
+
+const ours: ArrowTable = {
+  fields: [
+    { name: 'int', type: { id: 'int', bitWidth: 32, signed: true } },
+    { name: 'dbl', type: { id: 'float', precision: 'double' } },
+    { name: 'lgl', type: { id: 'bool' } },
+    { name: 'chr', type: { id: 'utf8' } },
+    {
+      name: 'fct',
+      type: { id: 'utf8' },
+      dictionary: { id: 0, indexType: { bitWidth: 32, signed: true }, ordered: false },
+    },
+    { name: 'date', type: { id: 'date', unit: 'day' } },
+    { name: 'time', type: { id: 'timestamp', unit: 'millisecond', timezone: 'UTC' } },
+  ],
+  dictionaries: new Map([[0, arrowUtf8(['a', 'b'])]]),
+  batches: [{
+    length: 3,
+    columns: [
+      column([1, null, 3], Int32Array),
+      column([1.5, 2.5, null], Float64Array),
+      {
+        length: 3,
+        nullCount: 1,
+        buffers: [arrowBitmap(3, (i) => i !== 2), arrowBitmap(3, (i) => i === 0)],
+      },
+      arrowUtf8(['x', null, 'zé']),
+      column([1, 0, 1], Int32Array),
+      column([0, 1, 19724], Int32Array),
+      int64Column([0, -1000, time]),
+    ],
+  }],
+};
+
+describe('Write Arrow IPC streams', () => {
+  const table = tableFromIPC(writeArrowStream(ours));
+
+  test('The schema is read by Apache Arrow', () => {
+    expect(table.numRows).toEqual(3);
+    expect(table.schema.fields.map((f) => f.name))
+      .toEqual(['int', 'dbl', 'lgl', 'chr', 'fct', 'date', 'time']);
+    expect(table.schema.fields.map((f) => String(f.type))).toEqual([
+      'Int32',
+      'Float64',
+      'Bool',
+      'Utf8',
+      'Dictionary<Int32, Utf8>',
+      'Date32<DAY>',
+      'Timestamp<MILLISECOND, UTC>',
+    ]);
+  });
+
+  test('Column values are read by Apache Arrow', () => {
+    expect(table.getChild('int')?.toJSON()).toEqual([1, null, 3]);
+    expect(table.getChild('dbl')?.toJSON()).toEqual([1.5, 2.5, null]);
+    expect(table.getChild('lgl')?.toJSON()).toEqual([true, false, null]);
+    expect(table.getChild('chr')?.toJSON()).toEqual(['x', null, 'zé']);
+    expect(table.getChild('fct')?.toJSON()).toEqual(['b', 'a', 'b']);
+    expect(table.getChild('date')?.toJSON()).toEqual([0, 86400000, 19724 * 86400000]);
+    expect(table.getChild('time')?.toJSON()).toEqual([0, -1000, time]);
+  });
+});
+
+describe('Read Arrow IPC streams', () => {
+  const table = new Table({
+    int: vectorFromArray([1, null, 3], new Int32()),
+    dbl: vectorFromArray([1.5, null, -2], new Float64()),
+    lgl: vectorFromArray([null, true, false], new Bool()),
+    chr: vectorFromArray(['x', null, 'zé'], new Utf8()),
+    fct: vectorFromArray(['b', 'a', 'b']),
+    date: vectorFromArray([new Date(0), new Date(86400000), null], new DateDay()),
+    time: vectorFromArray([new Date(time), null, new Date(-1000)], new TimestampMillisecond()),
+  });
+
+  test.each(['stream', 'file'] as const)('Tables in the IPC %s format are read', (format) => {
+    const arrow = readArrowStream(tableToIPC(table, format));
+    expect(arrow.fields.map((f) => f.name))
+      .toEqual(['int', 'dbl', 'lgl', 'chr', 'fct', 'date', 'time']);
+    expect(arrow.fields.map((f) => f.type)).toEqual([
+      { id: 'int', bitWidth: 32, signed: true },
+      { id: 'float', precision: 'double' },
+      { id: 'bool' },
+      { id: 'utf8' },
+      { id: 'utf8' },
+      { id: 'date', unit: 'day' },
+      { id: 'timestamp', unit: 'millisecond', timezone: null },
+    ]);
+    expect(arrow.batches).toHaveLength(1);
+
+    const [int, dbl, lgl, chr, fct, date, timestamp] = arrow.batches[0].columns;
+    expect(numbers(int, Int32Array)).toEqual([1, null, 3]);
+    expect(numbers(dbl, Float64Array)).toEqual([1.5, null, -2]);
+    expect([0, 1, 2].map((i) =>
+      arrowIsValid(lgl.buffers[0], i) ? arrowIsValid(lgl.buffers[1], i) : null
+    )).toEqual([null, true, false]);
+    expect(arrowUtf8Values(chr)).toEqual(['x', null, 'zé']);
+    expect(numbers(date, Int32Array)).toEqual([0, 1, null]);
+
+    const view = new DataView(timestamp.buffers[1].buffer, timestamp.buffers[1].byteOffset);
+    expect(arrowGetInt64(view, 0)).toEqual(time);
+    expect(arrowIsValid(timestamp.buffers[0], 1)).toBe(false);
+    expect(arrowGetInt64(view, 16)).toEqual(-1000);
+
+    const dict = arrow.fields[4].dictionary!;
+    const levels = arrowUtf8Values(arrow.dictionaries.get(dict.id)!);
+    expect(numbers(fct, Int32Array).map((i) => levels[i!])).toEqual(['b', 'a', 'b']);
+  });
+});
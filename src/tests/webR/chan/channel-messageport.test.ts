@@ -0,0 +1,56 @@
+import { Worker, MessageChannel } from 'worker_threads';
+import { WebR } from '../../../webR/webr-main';
+import { ChannelType } from '../../../webR/chan/channel-common';
+
+// Host the webR worker separately from the main thread instances using it
+const worker = new Worker('../dist/webr-worker.js');
+
+function connect() {
+  const { port1, port2 } = new MessageChannel();
+  worker.postMessage({ type: 'connect', data: { port: port2 } }, [port2]);
+  return new WebR({
+    channelType: ChannelType.MessagePort,
+    messagePort: port1 as unknown as MessagePort,
+    baseUrl: '../dist/',
+    RArgs: ['--quiet'],
+  });
+}
+
+const webR = connect();
+const otherWebR = connect();
+
+describe('Test communication works with MessagePort based channel', () => {
+  test('Initialises successfully', async () => {
+    await expect(webR.init()).resolves.not.toThrow();
+    await expect(otherWebR.init()).resolves.not.toThrow();
+  });
+
+  test('Evaluate R code', async () => {
+    expect(await webR.evalRNumber('1 + 1')).toEqual(2);
+  });
+
+  test('Connections share the same R session', async () => {
+    await webR.evalRVoid('shared <- 123');
+    expect(await otherWebR.evalRNumber('shared')).toEqual(123);
+  });
+
+  test('Output is sent to the connection that made the request', async () => {
+    const shelter = await new otherWebR.Shelter();
+    const out = await shelter.captureR('print("abc")');
+    expect(out.output).toEqual([{ type: 'stdout', data: '[1] "abc"' }]);
+    await shelter.purge();
+  });
+
+  test('Interrupt R code executed using evalR', async () => {
+    const loop = webR.evalRVoid('while(TRUE){}');
+    setTimeout(() => webR.interrupt(), 100);
+    await expect(loop).rejects.toThrow('A non-local transfer of control occurred');
+    expect(await otherWebR.evalRNumber('2 + 2')).toEqual(4);
+  });
+});
+
+afterAll(async () => {
+  otherWebR.close();
+  webR.close();
+  await worker.terminate();
+});
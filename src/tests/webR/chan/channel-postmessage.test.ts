@@ -30,6 +30,21 @@ describe('Test communication works with postMessage based channel', () => {
   });
 });
 
+describe('Interrupt execution with postMessage based channel', () => {
+  test('Interrupt R code executed using evalR', async () => {
+    const loop = webR.evalRVoid('while(TRUE){}');
+    setTimeout(() => webR.interrupt(), 100);
+    await expect(loop).rejects.toThrow('A non-local transfer of control occurred');
+  });
+
+  test('Interrupt R code a second time', async () => {
+    const loop = webR.evalRVoid('while(TRUE){}');
+    setTimeout(() => webR.interrupt(), 100);
+    await expect(loop).rejects.toThrow('A non-local transfer of control occurred');
+    expect(await webR.evalRNumber('1 + 1')).toEqual(2);
+  });
+});
+
 afterAll(() => {
   return webR.close();
 });
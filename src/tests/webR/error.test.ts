@@ -1,4 +1,4 @@
-import { WebR, WebRError, WebRWorkerError } from '../../webR/webr-main';
+import { WebR, WebRError, WebRRConditionError, WebRWorkerError } from '../../webR/webr-main';
 
 const webR = new WebR({
   baseUrl: '../dist/',
@@ -30,10 +30,47 @@ test('Caught WebRError has the expected error name property', async () => {
       error = e;
     }
   }
-  expect(error).toHaveProperty('name', 'WebRWorkerError');
+  expect(error).toHaveProperty('name', 'WebRRConditionError');
   expect(error).toHaveProperty('message', expect.stringContaining('unexpected end of input'));
 });
 
+test('R error conditions are thrown as WebRRConditionError', async () => {
+  const problem = webR.evalR('stop("oops")');
+  await expect(problem).rejects.toThrow(WebRRConditionError);
+  await expect(problem).rejects.toThrow(WebRWorkerError);
+  await expect(problem).rejects.toThrow('oops');
+});
+
+test('WebRRConditionError exposes the R condition details', async () => {
+  let error: WebRRConditionError | undefined;
+  try {
+    await webR.evalR(`
+      f <- function() g()
+      g <- function() {
+        cnd <- structure(
+          class = c("custom_error", "error", "condition"),
+          list(message = "Custom failure", call = sys.call(), status = 404L)
+        )
+        stop(cnd)
+      }
+      f()
+    `);
+  } catch (e) {
+    if (e instanceof WebRRConditionError) {
+      error = e;
+    }
+  }
+  expect(error).toBeDefined();
+  expect(error!.conditionClass).toEqual(['custom_error', 'error', 'condition']);
+  expect(error!.inherits('custom_error')).toBe(true);
+  expect(error!.inherits('simpleError')).toBe(false);
+  expect(error!.call).toEqual('g()');
+  expect(error!.conditionMessage).toEqual('Custom failure');
+  expect(error!.message).toEqual('Error in `g()`: Custom failure');
+  expect(error!.traceback).toEqual(expect.arrayContaining(['f()', 'g()', 'stop(cnd)']));
+  expect(error!.fields.status).toEqual({ type: 'integer', names: null, values: [404] });
+});
+
 test('An error is thrown if starting the webR worker fails', async () => {
   let error: Error | undefined;
 
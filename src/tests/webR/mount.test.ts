@@ -1,4 +1,4 @@
-import { FSMetaData, WebR } from '../../webR/webr-main';
+import { FSMetaData, InstallProgressMessage, WebR } from '../../webR/webr-main';
 import fs from 'fs';
 
 const webR = new WebR({
@@ -51,6 +51,16 @@ describe('Mount filesystem using R API', () => {
     await cleanupMnt();
   });
 
+  test('Mount v2.0 filesystem image from the VFS', async () => {
+    const data = fs.readFileSync("tests/webR/data/test_image.tar.gz");
+    await webR.FS.writeFile('/tmp/test_image.tar.gz', data);
+    await expect(webR.evalRVoid(
+      'webr::mount("/mnt", "file:///tmp/test_image.tar.gz", "workerfs")'
+    )).resolves.not.toThrow();
+    expect(await webR.evalRString("list.files('/mnt/abc')[2]")).toEqual("foo.csv");
+    await cleanupMnt();
+  });
+
   test('Mount filesystem image from URL', async () => {
     const url = "https://repo.r-wasm.org/bin/emscripten/contrib/4.4/cli_3.6.3.js.metadata";
     await expect(webR.evalRVoid(`
@@ -102,3 +112,55 @@ describe('Mount filesystem using JS API', () => {
     await cleanupMnt();
   });
 });
+
+describe('Install packages from a local repository', () => {
+  test('Register a local repository using blobs', async () => {
+    const data = fs.readFileSync("tests/webR/data/test_image.tar.gz");
+    const url = await webR.addLocalRepo('/repo', [
+      { name: 'PACKAGES', data: new TextEncoder().encode('Package: testpkg\nVersion: 1.0.0\n') },
+      { name: 'testpkg_1.0.0.tgz', data: new Blob([data]) },
+    ]);
+    expect(url).toEqual('file:///repo');
+    expect(await webR.evalRString('getOption("webr_pkg_repos")[1]')).toEqual(url);
+
+    const result = await webR.installPackages('testpkg', { repos: url, quiet: true });
+    expect(result).toEqual({
+      installed: ['testpkg'],
+      present: [],
+      failed: [],
+      order: ['testpkg'],
+    });
+    expect(await webR.evalRString(
+      "list.files(file.path(.libPaths()[1], 'testpkg', 'abc'))[2]"
+    )).toEqual("foo.csv");
+  });
+
+  test('Emit progress events and report already present packages', async () => {
+    const stages: string[] = [];
+    const off = webR.on('installProgress', (msg) => stages.push(msg.data.stage));
+    const result = await webR.installPackages(['testpkg', 'missingpkg'], {
+      repos: 'file:///repo',
+      quiet: true,
+    });
+    off();
+    expect(result.present).toEqual(['testpkg']);
+    expect(result.failed).toEqual(['missingpkg']);
+    expect(stages).toEqual(['resolving', 'done', 'done']);
+
+    // Progress events delivered to handlers are not added to the output queue
+    let output = await webR.flush();
+    expect(output.filter((msg) => msg.type === 'installProgress')).toEqual([]);
+
+    // Without a handler, progress events are added to the output queue
+    await webR.installPackages('testpkg', { repos: 'file:///repo', quiet: true });
+    output = await webR.flush();
+    expect(output
+      .filter((msg): msg is InstallProgressMessage => msg.type === 'installProgress')
+      .map((msg) => msg.data.stage)
+    ).toEqual(['resolving', 'done']);
+  });
+
+  test('A local repository requires a PACKAGES index', async () => {
+    await expect(webR.addLocalRepo('/tmp')).rejects.toThrow('PACKAGES');
+  });
+});
@@ -0,0 +1,94 @@
+import { WebRPool, WebR, WebRError, RDouble } from '../../webR/webr-main';
+
+const pool = new WebRPool({
+  size: 2,
+  scheduling: 'round-robin',
+  baseUrl: '../dist/',
+  RArgs: ['--quiet'],
+});
+
+beforeAll(async () => {
+  await pool.init();
+});
+
+describe('Schedule requests across a pool of webR sessions', () => {
+  test('Evaluate R code using the pool', async () => {
+    expect(await pool.evalRNumber('1 + 2')).toEqual(3);
+    expect(await pool.evalRString('"abc"')).toEqual('abc');
+  });
+
+  test('Sessions are isolated', async () => {
+    await pool.sessions[0].evalRVoid('x <- 1');
+    await pool.sessions[1].evalRVoid('x <- 2');
+    expect(await pool.sessions[0].evalRNumber('x')).toEqual(1);
+    expect(await pool.sessions[1].evalRNumber('x')).toEqual(2);
+  });
+
+  test('Round-robin scheduling uses sessions in turn', async () => {
+    const values = await Promise.all([
+      pool.evalRNumber('x'),
+      pool.evalRNumber('x'),
+    ]);
+    expect(values.sort()).toEqual([1, 2]);
+  });
+
+  test('Evaluate R code in parallel', async () => {
+    const a = pool.evalRNumber('Sys.sleep(1); 1');
+    const b = pool.evalRNumber('2');
+    expect(await Promise.race([a, b])).toEqual(2);
+    expect(await a).toEqual(1);
+  });
+
+  test('Destroy an R object returned by the pool', async () => {
+    const obj = await pool.evalR('c(1, 2, 3)');
+    expect(await obj.toJs()).toEqual(expect.objectContaining({ values: [1, 2, 3] }));
+    await expect(pool.destroy(obj)).resolves.not.toThrow();
+    await expect(pool.destroy(obj)).rejects.toThrow(WebRError);
+  });
+
+  test('Shelters are bound to a single session', async () => {
+    const shelter = await new pool.Shelter();
+    await shelter.evalR('y <- 123');
+    const result = (await shelter.evalR('y')) as RDouble;
+    expect(await result.toNumber()).toEqual(123);
+    await shelter.purge();
+  });
+
+  test('Run a function using a session from the pool', async () => {
+    const value = await pool.run(async (webR) => {
+      expect(webR).toBeInstanceOf(WebR);
+      await webR.evalRVoid('z <- 456');
+      return webR.evalRNumber('z');
+    });
+    expect(value).toEqual(456);
+  });
+
+  test('Filesystem modifications are applied to every session', async () => {
+    await pool.FS.writeFile('/tmp/pool.txt', new TextEncoder().encode('pool'));
+    for (const webR of pool.sessions) {
+      expect(await webR.evalRString('readLines("/tmp/pool.txt")')).toEqual('pool');
+    }
+    await pool.FS.unlink('/tmp/pool.txt');
+  });
+});
+
+describe('Manage sessions in a webR pool', () => {
+  test('Add a new session to the pool', async () => {
+    const webR = await pool.newSession();
+    expect(pool.size).toEqual(3);
+    expect(await webR.evalRNumber('1 + 1')).toEqual(2);
+  });
+
+  test('Close a session in the pool', () => {
+    pool.closeSession(pool.sessions[2]);
+    expect(pool.size).toEqual(2);
+  });
+
+  test('Invalid pool sizes are rejected', () => {
+    expect(() => new WebRPool({ size: 0 })).toThrow('positive integer');
+  });
+});
+
+afterAll(() => {
+  pool.close();
+});
@@ -1,5 +1,6 @@
 import { WebR } from '../../webR/webr-main';
 import { RDouble, RFunction, RList } from '../../webR/robj-main';
+import { ChannelMain } from '../../webR/chan/channel';
 import util from 'util';
 
 const webR = new WebR({
@@ -81,6 +82,45 @@ test('Other R objects cannot use the apply hook', async () => {
   expect(() => notFn(8)).toThrow('is not a function');
 });
 
+test('Chained method calls are pipelined in a single request', async () => {
+  const list = (await webR.evalR('list(a = list(1, 2, 3), b = "x")')) as RList;
+  const request = jest.spyOn(ChannelMain.prototype, 'request');
+  const result = await list.get('a').get(2).toJs();
+  expect(result).toEqual(expect.objectContaining({ type: 'double', values: [2] }));
+  expect(request).toHaveBeenCalledTimes(1);
+  request.mockRestore();
+});
+
+test('Pipelined calls return proxies for intermediate R objects', async () => {
+  const list = (await webR.evalR('list(a = list(1, 2, 3))')) as RList;
+  const inner = list.get('a');
+  const [type, elt] = await Promise.all([inner.type(), inner.get(3)]);
+  expect(type).toEqual('list');
+  expect(await (elt as RDouble).toNumber()).toEqual(3);
+});
+
+test('Errors in pipelined calls are thrown when awaited', async () => {
+  const list = (await webR.evalR('list(a = 1)')) as RList;
+  const missing = list.get('a').get(10);
+  await expect(missing).rejects.toThrow();
+  await expect(missing.type()).rejects.toThrow('an earlier call in the pipeline failed');
+  expect(await list.get('a').type()).toEqual('double');
+});
+
+test('Pipelined calls return promises', async () => {
+  const list = (await webR.evalR('list(a = 1)')) as RList;
+  const inner = list.get('a');
+  expect(inner).toBeInstanceOf(Promise);
+  expect(await inner.type()).toEqual('double');
+});
+
+test('Method calls can be chained after a pipeline has been sent', async () => {
+  const list = (await webR.evalR('list(a = list(1, 2, 3))')) as RList;
+  const inner = list.get('a');
+  await inner;
+  expect(await inner.get(1).toJs()).toEqual(expect.objectContaining({ values: [1] }));
+});
+
 afterAll(() => {
   return webR.close();
 });
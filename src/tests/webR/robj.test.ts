@@ -4,6 +4,7 @@ import * as RMain from '../../webR/robj-main';
 import {
   RCharacter,
   RComplex,
+  RDataFrame,
   RDouble,
   REnvironment,
   RFunction,
@@ -14,6 +15,7 @@ import {
   RObject,
   RPairlist,
   RRaw,
+  RS4,
   RSymbol,
 } from '../../webR/robj-main';
 
@@ -230,6 +232,40 @@ describe('Working with R lists and vectors', () => {
     expect(d3Obj[2]).toEqual(expect.objectContaining({ x: 3, y: 6, z: 9 }));
   });
 
+  test('Convert an R data.frame to and from Arrow IPC format', async () => {
+    const df = await webR.evalR(`
+      data.frame(
+        lgl = c(TRUE, NA, FALSE),
+        int = c(1L, NA, -3L),
+        dbl = c(1.5, NA, NaN),
+        chr = c("a", NA, "ü"),
+        fct = factor(c("lo", "hi", NA), levels = c("lo", "hi")),
+        ord = factor(c("b", "a", "b"), ordered = TRUE),
+        date = as.Date(c("2024-01-01", NA, "1960-06-30")),
+        time = as.POSIXct(c(0, 1.5, NA), tz = "UTC")
+      )
+    `) as RDataFrame;
+    const bytes = await df.toArrow();
+    expect(ArrayBuffer.isView(bytes)).toBe(true);
+    expect(Array.from(bytes.subarray(0, 4))).toEqual([255, 255, 255, 255]);
+
+    const result = await webR.RDataFrame.fromArrow(bytes);
+    const identical = await webR.evalRBoolean('identical(x, y)', { env: { x: df, y: result } });
+    expect(identical).toBe(true);
+  });
+
+  test('Convert an empty R data.frame to and from Arrow IPC format', async () => {
+    const df = await webR.evalR('data.frame(x = numeric(0), y = character(0))') as RDataFrame;
+    const result = await webR.RDataFrame.fromArrow(await df.toArrow());
+    const identical = await webR.evalRBoolean('identical(x, y)', { env: { x: df, y: result } });
+    expect(identical).toBe(true);
+  });
+
+  test('Unsupported data.frame columns raise an error when converting to Arrow', async () => {
+    const df = await webR.evalR('data.frame(x = I(list(1, 2)))') as RDataFrame;
+    await expect(df.toArrow()).rejects.toThrow("Can't convert column `x` of type \"list\"");
+  });
+
   test('Fully undefined names attribute', async () => {
     const list = (await webR.evalR('list("a", "b", "c")')) as RList;
     const pairlist = (await webR.evalR('pairlist("a", "b", "c")')) as RPairlist;
@@ -421,6 +457,219 @@ describe('Working with R lists and vectors', () => {
   });
 });
 
+describe('Converting R objects according to their class', () => {
+  test('Factors are converted to their labels', async () => {
+    const fct = await webR.evalR('factor(c("b", NA, "a"), levels = c("b", "a"))') as RInteger;
+    // Without `classes: true` the result is typed as an atomic vector
+    const js = await fct.toJs();
+    expect(js.values).toEqual([1, null, 2]);
+    expect(await fct.toJs({ classes: true })).toEqual({
+      type: 'integer',
+      class: 'factor',
+      names: null,
+      values: ['b', null, 'a'],
+      levels: ['b', 'a'],
+      ordered: false,
+    });
+  });
+
+  test('Dates and date-times are converted to JS Date objects', async () => {
+    const date = await webR.evalR('as.Date(c("2024-02-29", NA))') as RDouble;
+    const dateJs = await date.toJs({ classes: true });
+    expect(dateJs).toEqual(expect.objectContaining({ class: 'Date', tz: null }));
+    expect(dateJs.values).toEqual([new Date('2024-02-29T00:00:00Z'), null]);
+
+    const time = await webR.evalR(
+      'as.POSIXct("2024-02-29 12:30:00", tz = "America/New_York")'
+    ) as RDouble;
+    const timeJs = await time.toJs({ classes: true });
+    expect(timeJs).toEqual(expect.objectContaining({ class: 'POSIXct', tz: 'America/New_York' }));
+    expect(timeJs.values).toEqual([new Date('2024-02-29T17:30:00Z')]);
+  });
+
+  test('Dates and date-times are converted to ISO 8601 strings', async () => {
+    const date = await webR.evalR('as.Date("2024-02-29")') as RDouble;
+    const dateJs = await date.toJs({ classes: true, dates: 'string' });
+    expect(dateJs.values).toEqual(['2024-02-29']);
+
+    const time = await webR.evalR(
+      'as.POSIXct(c("2024-02-29 12:30:00", NA), tz = "America/New_York")'
+    ) as RDouble;
+    const timeJs = await time.toJs({ classes: true, dates: 'string' });
+    expect(timeJs.values).toEqual(['2024-02-29T12:30:00.000-05:00', null]);
+  });
+
+  test('Time differences are converted to numbers with units', async () => {
+    const diff = await webR.evalR('as.difftime(c(1.5, 3), units = "hours")') as RDouble;
+    expect(await diff.toJs({ classes: true })).toEqual({
+      type: 'double',
+      class: 'difftime',
+      names: null,
+      values: [1.5, 3],
+      units: 'hours',
+    });
+  });
+
+  test('Class conversion applies to data.frame columns', async () => {
+    const df = await webR.evalR(
+      'data.frame(x = factor("a"), y = as.Date("2000-01-01"))'
+    ) as RList;
+    const dfJs = await df.toJs({ classes: true });
+    expect(dfJs.values[0]).toEqual(expect.objectContaining({ class: 'factor', values: ['a'] }));
+    expect(dfJs.values[1]).toEqual(expect.objectContaining({ class: 'Date' }));
+  });
+
+  test('Create R date-times from JS Date objects', async () => {
+    const time = await new webR.RObject([new Date('2024-02-29T17:30:00Z'), null]);
+    const inherits = await webR.evalRBoolean('inherits(x, "POSIXct")', { env: { x: time } });
+    expect(inherits).toBe(true);
+    const seconds = await webR.evalRRaw('as.numeric(x)', 'number[]', { env: { x: time } });
+    expect(seconds).toEqual([1709227800, null]);
+  });
+
+  test('Reverse class conversion when creating R objects', async () => {
+    const x = await webR.evalR(`list(
+      fct = factor(c("lo", "hi", NA), levels = c("lo", "hi"), ordered = TRUE),
+      date = as.Date(c("2024-02-29", NA)),
+      time = as.POSIXct("2024-02-29 12:30:00", tz = "America/New_York"),
+      diff = as.difftime(90, units = "mins")
+    )`) as RList;
+    for (const dates of ['Date', 'string'] as const) {
+      const xJs = await x.toJs({ classes: true, dates });
+      const y = await new webR.RList(xJs);
+      const identical = await webR.evalRBoolean('identical(x, y)', { env: { x, y } });
+      expect(identical).toBe(true);
+    }
+  });
+});
+
+describe('Working with R matrices and arrays', () => {
+  test('Get the dimensions and dimension names of an R matrix', async () => {
+    const m = await webR.evalR(
+      'matrix(1:6, nrow = 2, dimnames = list(c("a", "b"), NULL))'
+    ) as RInteger;
+    expect(await m.dim()).toEqual([2, 3]);
+    expect(await m.dimnames()).toEqual([['a', 'b'], null]);
+
+    const v = await webR.evalR('1:3') as RInteger;
+    expect(await v.dim()).toBeNull();
+    expect(await v.dimnames()).toBeNull();
+  });
+
+  test('Extract rows and columns of an R matrix', async () => {
+    const m = await webR.evalR(
+      'matrix(1:6, nrow = 2, dimnames = list(c("a", "b"), c("x", "y", "z")))'
+    ) as RInteger;
+    expect(await (await m.row(2)).toObject()).toEqual({ x: 2, y: 4, z: 6 });
+    expect(await (await m.col('y')).toObject()).toEqual({ a: 3, b: 4 });
+    await expect(webR.evalR('1:3').then((v) => (v as RInteger).row(1))).rejects.toThrow(
+      'Supplied R object is not a matrix'
+    );
+  });
+
+  test('Convert an R array to nested JS arrays', async () => {
+    const m = await webR.evalR('matrix(c(1, NA, 3, 4, 5, 6), nrow = 2)') as RDouble;
+    expect(await m.toNestedArray()).toEqual([[1, 3, 5], [null, 4, 6]]);
+
+    const a = await webR.evalR('array(1:24, dim = c(2, 3, 4))') as RInteger;
+    const nested = await a.toNestedArray() as number[][][];
+    expect(nested[1][2][3]).toEqual(await webR.evalRNumber('x[2, 3, 4]', { env: { x: a } }));
+  });
+
+  test('Create an R matrix from nested JS arrays', async () => {
+    const m = await new webR.RMatrix([[1, 2, 3], [4, 5, 6]], undefined, [['a', 'b'], null]);
+    const identical = await webR.evalRBoolean(
+      'identical(x, matrix(c(1, 2, 3, 4, 5, 6), nrow = 2, byrow = TRUE, dimnames = list(c("a", "b"), NULL)))',
+      { env: { x: m } }
+    );
+    expect(identical).toBe(true);
+    await expect(new webR.RMatrix([[1, 2], [3]])).rejects.toThrow('must be rectangular');
+  });
+
+  test('Create an R array from a typed array and shape', async () => {
+    const a = await new webR.RArray(new Int32Array([...Array(24).keys()]), [2, 3, 4]);
+    expect(await a.type()).toEqual('integer');
+    const identical = await webR.evalRBoolean(
+      'identical(x, array(0:23, dim = c(2, 3, 4)))',
+      { env: { x: a } }
+    );
+    expect(identical).toBe(true);
+    await expect(new webR.RMatrix([1, 2, 3], [2, 2])).rejects.toThrow('Expected 4 values');
+  });
+});
+
+describe('Working with S4 and R6 objects', () => {
+  beforeAll(async () => {
+    await webR.evalRVoid(`
+      setClass("Person", representation(name = "character", age = "numeric"))
+      setClass("Base", representation("VIRTUAL"))
+    `);
+  });
+
+  test('Get the slots of an S4 object', async () => {
+    const person = await webR.evalR('new("Person", name = "Ada", age = 36)') as RS4;
+    expect(await person.slotNames()).toEqual(['name', 'age']);
+    expect(await (await person.slot('age') as RDouble).toNumber()).toEqual(36);
+  });
+
+  test('Set a slot of an S4 object', async () => {
+    const person = await webR.evalR('new("Person", name = "Ada", age = 36)') as RS4;
+    const older = await person.setSlot('age', 37);
+    expect(await (await older.slot('age') as RDouble).toNumber()).toEqual(37);
+    expect(await (await person.slot('age') as RDouble).toNumber()).toEqual(36);
+    await expect(person.setSlot('age', 'old')).rejects.toThrow('is not valid');
+  });
+
+  test('Identify S4 virtual classes', async () => {
+    const base = await webR.evalR('getClass("Base")') as RS4;
+    const person = await webR.evalR('new("Person", name = "Ada", age = 36)') as RS4;
+    expect(await base.isVirtualClass()).toBe(true);
+    expect(await person.isVirtualClass()).toBe(false);
+  });
+
+  test('Convert an S4 object to JS and back', async () => {
+    const person = await webR.evalR('new("Person", name = "Ada", age = 36)') as RS4;
+    const personJs = await person.toJs();
+    expect(personJs).toEqual({
+      type: 's4',
+      class: 'Person',
+      package: '.GlobalEnv',
+      names: ['name', 'age'],
+      values: [
+        { type: 'character', names: null, values: ['Ada'] },
+        { type: 'double', names: null, values: [36] },
+      ],
+    });
+    const result = await new webR.RS4(personJs);
+    const identical = await webR.evalRBoolean('identical(x, y)', { env: { x: person, y: result } });
+    expect(identical).toBe(true);
+  });
+
+  test('Read the fields of an R6 object', async () => {
+    const counter = await webR.evalR(`local({
+      private <- new.env()
+      private$secret <- "abc"
+      self <- new.env()
+      self$count <- 2
+      self$add <- function(n = 1) self$count <- self$count + n
+      makeActiveBinding("double", function() self$count * 2, self)
+      self$.__enclos_env__ <- list2env(list(self = self, private = private))
+      class(self) <- c("Counter", "R6")
+      self
+    })`) as REnvironment;
+    expect(await counter.isR6()).toBe(true);
+    expect((await counter.r6Fields()).sort()).toEqual(['count', 'double']);
+    expect(await counter.r6Fields({ private: true })).toEqual(['secret']);
+    expect(await (await counter.r6Field('double') as RDouble).toNumber()).toEqual(4);
+    expect(await (await counter.r6Field('secret', { private: true }) as RCharacter).toString()).toEqual('abc');
+    await expect(counter.r6Field('add')).rejects.toThrow("Can't find public field `add`");
+
+    const env = await webR.evalR('new.env()') as REnvironment;
+    expect(await env.isR6()).toBe(false);
+    await expect(env.r6Fields()).rejects.toThrow('Supplied environment is not an R6 object');
+  });
+});
+
 describe('Working with R environments', () => {
   test('Create an R environment', async () => {
     const env = (await webR.evalR('new.env()')) as REnvironment;
@@ -700,6 +949,38 @@ describe('Garbage collection', () => {
     await shelter.purge();
     expect(await shelter.size()).toEqual(0);
   });
+
+  test('Objects can be released using Symbol.asyncDispose', async () => {
+    const shelter = await new webR.Shelter();
+    const x = await shelter.evalR('1');
+    expect(await shelter.size()).toEqual(1);
+
+    const asyncDispose = (Symbol as unknown as { asyncDispose: symbol }).asyncDispose;
+    const dispose = (x as unknown as Record<symbol, () => Promise<void>>)[asyncDispose];
+    await dispose();
+    expect(await shelter.size()).toEqual(0);
+  });
+
+  test('Objects are released once garbage collected with autoDestroy', async () => {
+    // Garbage collection can only be triggered when node is run with --expose-gc,
+    // as it is by `make check`
+    if (typeof global.gc !== 'function') {
+      return;
+    }
+    const tempR = new WebR({ baseUrl: '../dist/', RArgs: ['--quiet'], autoDestroy: true });
+    await tempR.init();
+    const shelter = await new tempR.Shelter();
+
+    await (async () => {
+      await Promise.all([shelter.evalR('1'), shelter.evalR('2'), new shelter.RDouble(3)]);
+    })();
+    expect(await shelter.size()).toEqual(3);
+
+    global.gc();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await shelter.size()).toEqual(0);
+    tempR.close();
+  });
 });
 
 describe('R proxy object type predicate functions', () => {
@@ -1,5 +1,10 @@
-import { WebR } from '../../webR/webr-main';
+import { StreamREvent, WebR, WebRInterruptError } from '../../webR/webr-main';
 import { Message } from '../../webR/chan/message';
+import { WebRDataJsAtomic } from '../../webR/robj';
+import { WebRChannelError } from '../../webR/error';
+import fs from 'fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
 import {
   RCall,
   RCharacter,
@@ -249,6 +254,60 @@ describe('Evaluate R code', () => {
     expect(result.images.length).toBeGreaterThan(0);
     void shelter.purge();
   });
+
+  test('Stream output events while evaluating R code', async () => {
+    const shelter = await new webR.Shelter();
+    const events: StreamREvent[] = [];
+    for await (const event of shelter.streamR(`
+      print("Hello, stdout!")
+      message("Hello, message!")
+      warning("Hello, warning!")
+      123
+    `, { captureGraphics: false })) {
+      events.push(event);
+    }
+
+    expect(events.map((event) => event.type)).toEqual(['stdout', 'message', 'warning', 'result']);
+    expect(events[0].data).toEqual('[1] "Hello, stdout!"');
+
+    const msg = await (events[1].data as RList).get('message') as RCharacter;
+    expect(await msg.toString()).toContain('Hello, message!');
+
+    const result = events[3].data as RDouble;
+    expect(await result.toNumber()).toEqual(123);
+    void shelter.purge();
+  });
+
+  test('Errors are thrown after preceding streamed output', async () => {
+    const shelter = await new webR.Shelter();
+    const events: StreamREvent[] = [];
+    const consume = async () => {
+      for await (const event of shelter.streamR('cat("foo\\n"); stop("bar")', {
+        captureGraphics: false,
+      })) {
+        events.push(event);
+      }
+    };
+    await expect(consume()).rejects.toThrow('bar');
+    expect(events.map((event) => event.type)).toEqual(['stdout', 'error']);
+    expect(events[0].data).toEqual('foo');
+    const msg = await (events[1].data as RList).get('message') as RCharacter;
+    expect(await msg.toString()).toEqual('bar');
+    void shelter.purge();
+  });
+
+  test('Stream plot images with mocked OffScreenCanvas', async () => {
+    const shelter = await new webR.Shelter();
+    const types: string[] = [];
+    for await (const event of shelter.streamR(`
+      plot.new(); points(0)
+      plot.new(); points(1)
+    `, { captureGraphics: true })) {
+      types.push(event.type);
+    }
+    expect(types).toEqual(['image', 'image', 'result']);
+    void shelter.purge();
+  });
 });
 
 describe('Create R objects using serialised form', () => {
@@ -968,6 +1027,64 @@ describe('Evaluate objects without shelters', () => {
     await expect(webR.evalRRaw('10', 'string[]')).rejects.toThrow("Can't convert");
     await expect(webR.evalRRaw('NULL', 'string[]')).rejects.toThrow("Can't convert");
   });
+
+  test('typed array return', async () => {
+    const dbl = await webR.evalRRaw('c(1.5, 2, 3)', 'Float64Array');
+    expect(dbl).toBeInstanceOf(Float64Array);
+    expect(Array.from(dbl)).toEqual([1.5, 2, 3]);
+    expect(Array.from(await webR.evalRRaw('c(1L, 2L)', 'Float64Array'))).toEqual([1, 2]);
+    await expect(webR.evalRRaw('c(1, NA)', 'Float64Array')).rejects.toThrow("Can't convert");
+    await expect(webR.evalRRaw('"foo"', 'Float64Array')).rejects.toThrow("Can't convert");
+
+    const int = await webR.evalRRaw('c(1L, 2L, 3L)', 'Int32Array');
+    expect(int).toBeInstanceOf(Int32Array);
+    expect(Array.from(int)).toEqual([1, 2, 3]);
+    expect(Array.from(await webR.evalRRaw('c(TRUE, FALSE)', 'Int32Array'))).toEqual([1, 0]);
+    await expect(webR.evalRRaw('c(1.5, 2)', 'Int32Array')).rejects.toThrow("Can't convert");
+    await expect(webR.evalRRaw('NA_integer_', 'Int32Array')).rejects.toThrow("Can't convert");
+  });
+
+  test('matrix return', async () => {
+    const colMajor = await webR.evalRRaw('matrix(c(1, 2, 3, 4, 5, 6), nrow = 2)', 'matrix');
+    expect(colMajor.dim).toEqual([2, 3]);
+    expect(colMajor.order).toEqual('column-major');
+    expect(Array.from(colMajor.data as Float64Array)).toEqual([1, 2, 3, 4, 5, 6]);
+
+    const rowMajor = await webR.evalRRaw('matrix(1:6, nrow = 2)', 'matrix:row-major');
+    expect(rowMajor.dim).toEqual([2, 3]);
+    expect(rowMajor.order).toEqual('row-major');
+    expect(rowMajor.data).toBeInstanceOf(Int32Array);
+    expect(Array.from(rowMajor.data as Int32Array)).toEqual([1, 3, 5, 2, 4, 6]);
+
+    const chr = await webR.evalRRaw('matrix(letters[1:4], 2, byrow = TRUE)', 'matrix:row-major');
+    expect(chr.data).toEqual(['a', 'b', 'c', 'd']);
+
+    await expect(webR.evalRRaw('1:6', 'matrix')).rejects.toThrow("Can't convert");
+    await expect(webR.evalRRaw('matrix(c(1, NA))', 'matrix')).rejects.toThrow("Can't convert");
+    await expect(webR.evalRRaw('array(1:8, c(2, 2, 2))', 'matrix')).rejects.toThrow("Can't convert");
+  });
+
+  test('data.frame return', async () => {
+    const df = await webR.evalRRaw(
+      'data.frame(x = c(1.5, NA), y = c("a", "b"), z = factor(c("u", "v")), w = c(TRUE, FALSE))',
+      'data.frame'
+    );
+    expect(df).toEqual({ x: [1.5, null], y: ['a', 'b'], z: ['u', 'v'], w: [true, false] });
+    await expect(webR.evalRRaw('list(x = 1)', 'data.frame')).rejects.toThrow("Can't convert");
+    await expect(
+      webR.evalRRaw('df <- data.frame(x = 1); df$y <- list(1); df', 'data.frame')
+    ).rejects.toThrow("Can't convert");
+  });
+
+  test('json return', async () => {
+    expect(await webR.evalRRaw('c(1, NA, Inf)', 'json')).toEqual('[1,null,null]');
+    expect(await webR.evalRRaw('list(a = 1L, b = list("x", TRUE))', 'json'))
+      .toEqual('{"a":[1],"b":[["x"],[true]]}');
+    expect(JSON.parse(await webR.evalRRaw('data.frame(x = 1:2, y = c("a", "b"))', 'json')))
+      .toEqual([{ x: 1, y: 'a' }, { x: 2, y: 'b' }]);
+    expect(await webR.evalRRaw('NULL', 'json')).toEqual('null');
+    await expect(webR.evalRRaw('function() 1', 'json')).rejects.toThrow("Can't convert");
+  });
 });
 
 describe('Interrupt execution', () => {
@@ -982,6 +1099,52 @@ describe('Interrupt execution', () => {
     setTimeout(() => webR.interrupt(), 100);
     await expect(loop).rejects.toThrow('A non-local transfer of control occurred');
   });
+
+  test('Abort a running evalR call using an AbortSignal', async () => {
+    const controller = new AbortController();
+    const loop = webR.evalRVoid('while(TRUE){}', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 100);
+    await expect(loop).rejects.toThrow(WebRInterruptError);
+    expect(await webR.evalRNumber('1 + 1')).toEqual(2);
+  });
+
+  test('Abort a running evalR call after a timeout', async () => {
+    const loop = webR.evalRVoid('while(TRUE){}', { timeoutMs: 100 });
+    await expect(loop).rejects.toThrow('The request timed out after 100ms');
+  });
+
+  test('Aborting a queued evalR call does not affect other requests', async () => {
+    const controller = new AbortController();
+    const first = webR.evalRNumber('Sys.sleep(0.2); 1');
+    const second = webR.evalRNumber('2', { signal: controller.signal });
+    const third = webR.evalRNumber('3');
+    controller.abort();
+    await expect(second).rejects.toThrow(WebRInterruptError);
+    expect(await first).toEqual(1);
+    expect(await third).toEqual(3);
+  });
+
+  test('Aborting an evalR call that completes regardless does not interrupt later requests', async () => {
+    const shelter = await new webR.Shelter();
+    const controller = new AbortController();
+    // R does not check for interrupts while busy running JavaScript code
+    const result = shelter.evalR(`
+      webr::eval_js("const end = Date.now() + 300; while (Date.now() < end) {}; 1")
+    `, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 100);
+    await expect(result).rejects.toThrow(WebRInterruptError);
+    expect(await webR.evalRNumber('1 + 1')).toEqual(2);
+    expect(await shelter.size()).toEqual(0);
+  });
+
+  test('Reject immediately when given an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const shelter = await new webR.Shelter();
+    await expect(shelter.captureR('42', { signal: controller.signal }))
+      .rejects.toThrow('aborted before being sent');
+    expect(await shelter.size()).toEqual(0);
+  });
 });
 
 test('Invoke a wasm function from the main thread', async () => {
@@ -1011,6 +1174,110 @@ test('Invoke a wasm function after a delay', async () => {
   expect((await webR.read()).data).toBe('Hello, World!');
 });
 
+describe('Call registered JS functions from R', () => {
+  test('Call a JS function with arguments and return a result', async () => {
+    webR.registerFunction('add', (x, y) => {
+      const xs = (x as WebRDataJsAtomic<number>).values as number[];
+      const ys = (y as WebRDataJsAtomic<number>).values as number[];
+      return xs.map((v, i) => v + ys[i]);
+    });
+    const result = await webR.evalRRaw('webr::js_call("add", c(1, 2), c(10, 20))', 'number[]');
+    expect(result).toEqual([11, 22]);
+  });
+
+  test('Call an asynchronous JS function', async () => {
+    webR.registerFunction('greet', async (name) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return `Hello, ${(name as WebRDataJsAtomic<string>).values[0]!}!`;
+    });
+    const result = await webR.evalRString('webr::js_call("greet", "webR")');
+    expect(result).toEqual('Hello, webR!');
+  });
+
+  test('Errors thrown by JS functions are raised as R errors', async () => {
+    webR.registerFunction('fail', () => {
+      throw new Error('Something went wrong');
+    });
+    await expect(webR.evalRVoid('webr::js_call("fail")')).rejects.toThrow('Something went wrong');
+    await expect(webR.evalRVoid('webr::js_call("missing")')).rejects.toThrow(
+      'No JavaScript function named `missing` has been registered'
+    );
+  });
+});
+
+test('Report memory usage statistics', async () => {
+  const shelter = await new webR.Shelter();
+  await shelter.evalR('1:10');
+  await shelter.evalR('letters');
+
+  const stats = await webR.stats();
+  expect(stats.heapSize).toBeGreaterThan(0);
+  expect(stats.heapMax).toEqual(2 ** 31);
+  expect(stats.heapSize).toBeLessThanOrEqual(stats.heapMax);
+  expect(stats.Ncells.used).toBeGreaterThan(0);
+  expect(stats.Vcells.used).toBeGreaterThan(0);
+  expect(stats.Vcells.triggerMb).toBeGreaterThan(0);
+  expect(Object.values(stats.shelters)).toContain(2);
+  expect(stats.queues.input).toEqual(0);
+  expect(stats.queues.system).toEqual(0);
+  await shelter.purge();
+});
+
+describe('Subscribe to webR output messages', () => {
+  test('Multiple handlers receive output messages', async () => {
+    await webR.flush();
+    const first: string[] = [];
+    const second: string[] = [];
+    const offFirst = webR.on('stdout', (msg) => first.push(msg.data));
+    const offSecond = webR.on('stdout', (msg) => second.push(msg.data));
+    const prompt = new Promise((resolve) => {
+      const off = webR.on('prompt', (msg) => {
+        off();
+        resolve(msg.data);
+      });
+    });
+    webR.writeConsole('print(42)');
+    await prompt;
+    offFirst();
+    offSecond();
+    expect(first).toEqual(['[1] 42']);
+    expect(second).toEqual(['[1] 42']);
+  });
+
+  test('Unsubscribed messages are added to the output queue', async () => {
+    await webR.flush();
+    const lines: string[] = [];
+    const off = webR.on('stdout', (msg) => lines.push(msg.data));
+    off();
+    webR.writeConsole('print(123)');
+    expect((await webR.read()).data).toBe('[1] 123');
+    expect(lines).toEqual([]);
+  });
+
+  test('Exceptions thrown by handlers are logged', async () => {
+    await webR.flush();
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const lines: string[] = [];
+    const offFirst = webR.on('stdout', () => {
+      throw new Error('handler failed');
+    });
+    const offSecond = webR.on('stdout', (msg) => lines.push(msg.data));
+    const prompt = new Promise((resolve) => {
+      const off = webR.on('prompt', (msg) => {
+        off();
+        resolve(msg.data);
+      });
+    });
+    webR.writeConsole('print(42)');
+    await prompt;
+    offFirst();
+    offSecond();
+    expect(lines).toEqual(['[1] 42']);
+    expect(error).toHaveBeenCalledWith(new Error('handler failed'));
+    error.mockRestore();
+  });
+});
+
 test('Close webR communication channel', async () => {
   const tempR = new WebR({ baseUrl: '../dist/' });
   await tempR.init();
@@ -1042,6 +1309,82 @@ test('Close webR communication channel', async () => {
   );
 });
 
+test('Restart webR with the same options and mounted filesystems', async () => {
+  const onRestart = jest.fn();
+  const tempR = new WebR({
+    baseUrl: '../dist/',
+    REnv: { FOO: 'bar' },
+    onRestart,
+  });
+  await tempR.init();
+  await tempR.FS.mkdir('/mnt');
+  await tempR.FS.mount('NODEFS', { root: 'tests/webR/data/testing' }, '/mnt');
+  await tempR.evalRVoid('x <- 123');
+
+  await tempR.restart();
+  expect(onRestart).toHaveBeenCalledTimes(1);
+  expect(await tempR.evalRBoolean('exists("x")')).toEqual(false);
+  expect(await tempR.evalRString('Sys.getenv("FOO")')).toEqual('bar');
+  expect(await tempR.evalRString("readLines('/mnt/foo.csv')[2]")).toEqual('1, 2, 3');
+  tempR.close();
+});
+
+test('Call onCrash and reject pending requests when the worker crashes', async () => {
+  const onCrash = jest.fn();
+  const tempR = new WebR({ baseUrl: '../dist/', onCrash });
+  await tempR.init();
+
+  // Report an unrecoverable error, as the worker does on a WebAssembly trap
+  const running = tempR.evalRVoid(`
+    webr::eval_js("Module.webr.channel.writeSystem({ type: 'close', data: 'Simulated error' })")
+    Sys.sleep(10)
+  `);
+  const queued = tempR.evalRNumber('1');
+  await expect(running).rejects.toThrow(WebRChannelError);
+  await expect(queued).rejects.toThrow('The webR communication channel has been closed');
+  expect(onCrash).toHaveBeenCalledTimes(1);
+  expect((onCrash.mock.calls[0] as [Error])[0].message).toContain('Simulated error');
+
+  await tempR.restart();
+  expect(await tempR.evalRNumber('1 + 1')).toEqual(2);
+  tempR.close();
+});
+
+test('Registered functions and local repositories are available after restart', async () => {
+  const tempR = new WebR({ baseUrl: '../dist/' });
+  await tempR.init();
+  tempR.registerFunction('twice', (x) => (x as WebRDataJsAtomic<number>).values.map((v) => v! * 2));
+
+  // A repository on a mounted host directory is available after restart
+  const hostDir = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-'));
+  fs.writeFileSync(path.join(hostDir, 'PACKAGES'), 'Package: testpkg\nVersion: 1.0.0\n');
+  fs.copyFileSync('tests/webR/data/test_image.tar.gz', path.join(hostDir, 'testpkg_1.0.0.tgz'));
+  await tempR.FS.mkdir('/repo');
+  await tempR.FS.mount('NODEFS', { root: hostDir }, '/repo');
+  const url = await tempR.addLocalRepo('/repo');
+
+  // A repository written to the previous worker's VFS is not
+  await tempR.addLocalRepo('/somewhere', [
+    { name: 'PACKAGES', data: new TextEncoder().encode('Package: testpkg\nVersion: 1.0.0\n') },
+  ]);
+
+  const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => null);
+  await expect(tempR.restart()).resolves.toBeUndefined();
+  expect(warnSpy).toHaveBeenCalledWith(
+    'Local package repository `/somewhere` is not available after restart.'
+  );
+  warnSpy.mockRestore();
+
+  expect(await tempR.evalRRaw('webr::js_call("twice", c(1, 2))', 'number[]')).toEqual([2, 4]);
+  const repos = await tempR.evalRRaw('getOption("webr_pkg_repos")', 'string[]');
+  expect(repos[0]).toEqual(url);
+  expect(repos).not.toContain('file:///somewhere');
+  const result = await tempR.installPackages('testpkg', { repos: url, quiet: true });
+  expect(result.installed).toEqual(['testpkg']);
+  tempR.close();
+  fs.rmSync(hostDir, { recursive: true });
+});
+
 test('Default and user provided REnv properties are merged', async () => {
   const tempR = new WebR({
     baseUrl: '../dist/',
@@ -1100,6 +1443,30 @@ test('Async generator streams worker messages', async () => {
   expect(stdout).toEqual(expect.arrayContaining(["[1] 2048"]));
 });
 
+test('Snapshot and restore the state of an R session', async () => {
+  const tempR = new WebR({ baseUrl: '../dist/', RArgs: ['--quiet'] });
+  await tempR.init();
+  await tempR.evalRVoid('library(tools); x <- 123; f <- function(y) x + y');
+  await tempR.FS.mkdir('/home/web_user/snapshot');
+  await tempR.FS.writeFile('/home/web_user/snapshot/a.txt', new TextEncoder().encode('abc'));
+  const snapshot = await tempR.snapshot();
+  tempR.close();
+
+  expect(snapshot.packages).toEqual(expect.arrayContaining(['tools', 'base']));
+  expect(snapshot.files).toEqual(expect.arrayContaining([
+    expect.objectContaining({ path: 'snapshot', type: 'directory' }),
+    expect.objectContaining({ path: 'snapshot/a.txt', type: 'file' }),
+  ]));
+
+  const restoredR = new WebR({ baseUrl: '../dist/', RArgs: ['--quiet'] });
+  await restoredR.init();
+  await restoredR.restore(snapshot);
+  expect(await restoredR.evalRNumber('f(1)')).toEqual(124);
+  expect(await restoredR.evalRBoolean('"package:tools" %in% search()')).toEqual(true);
+  expect(await restoredR.evalRString('readLines("snapshot/a.txt")')).toEqual('abc');
+  restoredR.close();
+});
+
 beforeEach(() => {
   jest.restoreAllMocks();
 });
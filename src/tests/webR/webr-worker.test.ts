@@ -3,6 +3,7 @@ import { RInteger, RLogical, RRaw } from '../../webR/robj-main';
 import { mkdtemp, rmdir, unlink, writeFile } from 'fs/promises';
 import * as path from 'node:path';
 import * as os from 'node:os';
+import JSZip from 'jszip';
 
 const webR = new WebR({
   baseUrl: '../dist/',
@@ -95,6 +96,29 @@ describe('Test webR virtual filesystem', () => {
     expect(fileInfo).toHaveProperty('isFolder', false);
   });
 
+  test('Get file metadata on the VFS', async () => {
+    const stat = await webR.FS.stat('/tmp/bar');
+    expect(stat.type).toEqual('file');
+    expect(stat.size).toEqual(testFileContents.length);
+    expect(stat.mtime).toBeInstanceOf(Date);
+    expect((await webR.FS.stat('/tmp')).type).toEqual('directory');
+  });
+
+  test('Get symbolic link metadata and target on the VFS', async () => {
+    await webR.evalRVoid('file.symlink("/tmp/bar", "/tmp/link")');
+    expect((await webR.FS.lstat('/tmp/link')).type).toEqual('symlink');
+    expect((await webR.FS.stat('/tmp/link')).type).toEqual('file');
+    expect(await webR.FS.readlink('/tmp/link')).toEqual('/tmp/bar');
+    await webR.FS.unlink('/tmp/link');
+  });
+
+  test('List the entries of a directory on the VFS', async () => {
+    const entries = await webR.FS.readdir('/tmp');
+    expect(entries).toContain('bar');
+    expect(entries).not.toContain('.');
+    expect(entries).not.toContain('..');
+  });
+
   test('Create a new directory on the VFS', async () => {
     await expect(webR.FS.mkdir('/newdir')).resolves.not.toThrow();
     const dirInfo = webR.FS.lookupPath('/newdir');
@@ -126,6 +150,261 @@ describe('Test webR virtual filesystem', () => {
     expect(fileInfo).toHaveProperty('exists', false);
   });
 
+  test('Create a directory tree on the VFS', async () => {
+    await expect(webR.FS.mkdirTree('/tmp/tree/a/b')).resolves.not.toThrow();
+    await expect(webR.FS.mkdirTree('/tmp/tree/a')).resolves.not.toThrow();
+    expect((await webR.FS.stat('/tmp/tree/a/b')).type).toEqual('directory');
+  });
+
+  test('Copy files and directories on the VFS', async () => {
+    await webR.FS.writeFile('/tmp/tree/a/one.R', testFileContents);
+    await webR.FS.writeFile('/tmp/tree/a/b/two.R', testFileContents);
+    await webR.FS.writeFile('/tmp/tree/a/b/.hidden', testFileContents);
+
+    await webR.FS.copy('/tmp/tree/a/one.R', '/tmp/tree/one.R');
+    expect(await webR.FS.readFile('/tmp/tree/one.R')).toStrictEqual(testFileContents);
+
+    await expect(webR.FS.copy('/tmp/tree/a', '/tmp/tree/c')).rejects.toThrow('recursive');
+    await expect(webR.FS.copy('/tmp/tree/a', '/tmp/tree/a/b/c', { recursive: true }))
+      .rejects.toThrow('into itself');
+    await webR.FS.copy('/tmp/tree/a', '/tmp/tree/c', { recursive: true });
+    expect(await webR.FS.readFile('/tmp/tree/c/b/two.R')).toStrictEqual(testFileContents);
+  });
+
+  test('Find paths on the VFS matching a glob pattern', async () => {
+    expect(await webR.FS.glob('/tmp/tree/*/*.R')).toEqual(['/tmp/tree/a/one.R', '/tmp/tree/c/one.R']);
+    expect(await webR.FS.glob('/tmp/tree/**/*.R')).toEqual([
+      '/tmp/tree/a/b/two.R',
+      '/tmp/tree/a/one.R',
+      '/tmp/tree/c/b/two.R',
+      '/tmp/tree/c/one.R',
+      '/tmp/tree/one.R',
+    ]);
+    expect(await webR.FS.glob('/tmp/tree/[!a]/b/*')).toEqual(['/tmp/tree/c/b/two.R']);
+    expect(await webR.FS.glob('/tmp/tree/c/b/.*')).toEqual(['/tmp/tree/c/b/.hidden']);
+    expect(await webR.FS.glob('/tmp/tree/missing/*')).toEqual([]);
+  });
+
+  test('Remove files and directories on the VFS', async () => {
+    await webR.FS.remove('/tmp/tree/one.R');
+    await expect(webR.FS.remove('/tmp/tree/c')).rejects.toThrow();
+    await webR.FS.remove('/tmp/tree', { recursive: true });
+    expect((await webR.FS.analyzePath('/tmp/tree')).exists).toBe(false);
+  });
+
+  test('Do not remove directories containing a mounted filesystem', async () => {
+    const tmpDir = await mkdtemp(path.join(os.tmpdir(), 'temp-'));
+    await writeFile(path.join(tmpDir, 'keep.txt'), 'keep');
+    await webR.FS.mkdirTree('/tmp/remove/host');
+    await webR.FS.mount('NODEFS', { root: tmpDir }, '/tmp/remove/host');
+
+    await expect(webR.FS.remove('/tmp/remove', { recursive: true }))
+      .rejects.toThrow('a filesystem is mounted at `/tmp/remove/host`');
+    await expect(webR.FS.remove('/tmp/remove/host', { recursive: true }))
+      .rejects.toThrow('a filesystem is mounted at `/tmp/remove/host`');
+    expect((await webR.FS.analyzePath('/tmp/remove/host/keep.txt')).exists).toBe(true);
+
+    await webR.FS.unmount('/tmp/remove/host');
+    await webR.FS.remove('/tmp/remove', { recursive: true });
+    expect((await webR.FS.analyzePath('/tmp/remove')).exists).toBe(false);
+    await unlink(path.join(tmpDir, 'keep.txt'));
+    await rmdir(tmpDir);
+  });
+
+  test('Export and import archives of directories on the VFS', async () => {
+    await webR.FS.mkdirTree('/tmp/project/R');
+    await webR.FS.writeFile('/tmp/project/R/script.R', testFileContents);
+    await webR.FS.writeFile('/tmp/project/data.bin', testFileContents);
+
+    for (const format of ['zip', 'tar.gz'] as const) {
+      const archive = await webR.FS.exportArchive('/tmp/project', format);
+      const paths = await webR.FS.importArchive(archive, `/tmp/${format}`);
+      expect(paths).toContain(`/tmp/${format}/project/R/script.R`);
+      expect(await webR.FS.readFile(`/tmp/${format}/project/R/script.R`))
+        .toStrictEqual(testFileContents);
+      expect(await webR.FS.readFile(`/tmp/${format}/project/data.bin`))
+        .toStrictEqual(testFileContents);
+      await webR.FS.remove(`/tmp/${format}`, { recursive: true });
+    }
+
+    // Archives created by R can also be imported
+    await webR.evalRVoid(`
+      wd <- setwd("/tmp")
+      utils::tar("/tmp/project.tar.gz", "project", compression = "gzip", tar = "internal")
+      setwd(wd)
+    `);
+    const archive = await webR.FS.readFile('/tmp/project.tar.gz');
+    const paths = await webR.FS.importArchive(archive, '/tmp/extracted');
+    expect(paths).toContain('/tmp/extracted/project/data.bin');
+    await webR.FS.remove('/tmp/extracted', { recursive: true });
+    await webR.FS.remove('/tmp/project', { recursive: true });
+    await webR.FS.unlink('/tmp/project.tar.gz');
+  });
+
+  test('Zip archives are interoperable with JSZip', async () => {
+    await webR.FS.mkdirTree('/tmp/project/R');
+    await webR.FS.writeFile('/tmp/project/R/script.R', testFileContents);
+
+    const exported = await JSZip.loadAsync(await webR.FS.exportArchive('/tmp/project', 'zip'));
+    expect(exported.file('project/R/script.R')).not.toBeNull();
+    expect(await exported.file('project/R/script.R')!.async('uint8array'))
+      .toStrictEqual(testFileContents);
+    await webR.FS.remove('/tmp/project', { recursive: true });
+
+    const zip = new JSZip();
+    zip.file('made/R/script.R', testFileContents);
+    zip.file('made/data.txt', 'Hello, World!'.repeat(100));
+    zip.folder('made/empty');
+    const data = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+    const paths = await webR.FS.importArchive(data, '/tmp/jszip');
+    expect(paths).toContain('/tmp/jszip/made/empty');
+    expect(await webR.FS.readFile('/tmp/jszip/made/R/script.R')).toStrictEqual(testFileContents);
+    expect(new TextDecoder().decode(await webR.FS.readFile('/tmp/jszip/made/data.txt')))
+      .toEqual('Hello, World!'.repeat(100));
+    await webR.FS.remove('/tmp/jszip', { recursive: true });
+  });
+
+  test('Archive entries are not extracted outside of the target directory', async () => {
+    // A tar archive of regular files and symbolic links
+    const makeTar = (entries: { name: string; data?: string; linkname?: string }[]) => {
+      const encoder = new TextEncoder();
+      const blocks = entries.map(({ name, data = '', linkname }) => {
+        const content = encoder.encode(data);
+        const block = new Uint8Array(512 * (1 + Math.ceil(content.length / 512)));
+        block.set(encoder.encode(name), 0);
+        block.set(encoder.encode('0000644'), 100);
+        block.set(encoder.encode(content.length.toString(8).padStart(11, '0')), 124);
+        block.set(encoder.encode('00000000000'), 136);
+        block.set(encoder.encode(`        ${linkname ? '2' : '0'}`), 148);
+        block.set(encoder.encode(linkname ?? ''), 157);
+        const checksum = block.subarray(0, 512).reduce((sum, byte) => sum + byte, 0);
+        block.set(encoder.encode(`${checksum.toString(8).padStart(6, '0')}\0 `), 148);
+        block.set(content, 512);
+        return block;
+      });
+      const tar = new Uint8Array(blocks.reduce((len, block) => len + block.length, 1024));
+      blocks.reduce((offset, block) => {
+        tar.set(block, offset);
+        return offset + block.length;
+      }, 0);
+      return tar;
+    };
+
+    await expect(webR.FS.importArchive(makeTar([{ name: 'abs', linkname: '/tmp' }]), '/tmp/hostile'))
+      .rejects.toThrow('outside of `/tmp/hostile`');
+    await expect(webR.FS.importArchive(makeTar([{ name: 'dir/up', linkname: '../..' }]), '/tmp/hostile'))
+      .rejects.toThrow('outside of `/tmp/hostile`');
+    await expect(webR.FS.importArchive(makeTar([{ name: 'dir/ok', linkname: '../file' }]), '/tmp/hostile'))
+      .resolves.toEqual(['/tmp/hostile/dir/ok']);
+
+    // Links created by earlier entries of the archive are not written through
+    await expect(webR.FS.importArchive(makeTar([
+      { name: 'lnk', linkname: 'dir' },
+      { name: 'lnk/file.txt', data: 'Hello, World!' },
+    ]), '/tmp/hostile')).rejects.toThrow('through the symbolic link `/tmp/hostile/lnk`');
+
+    // Nothing is extracted from a rejected archive
+    await expect(webR.FS.importArchive(makeTar([
+      { name: 'first.txt', data: 'Hello, World!' },
+      { name: 'last', linkname: '../../tmp' },
+    ]), '/tmp/hostile')).rejects.toThrow('outside of `/tmp/hostile`');
+    expect((await webR.FS.analyzePath('/tmp/hostile/first.txt')).exists).toBe(false);
+    expect((await webR.FS.analyzePath('/tmp/hostile/lnk')).exists).toBe(false);
+
+    // Existing symbolic links are not written through
+    await webR.FS.mkdir('/tmp/outside');
+    await webR.evalRVoid('file.symlink("/tmp/outside", "/tmp/hostile/out")');
+    const zip = new JSZip();
+    zip.file('out/file.txt', 'Hello, World!');
+    const data = await zip.generateAsync({ type: 'uint8array' });
+    await expect(webR.FS.importArchive(data, '/tmp/hostile'))
+      .rejects.toThrow('through the symbolic link `/tmp/hostile/out`');
+    expect((await webR.FS.analyzePath('/tmp/outside/file.txt')).exists).toBe(false);
+
+    await webR.FS.remove('/tmp/hostile', { recursive: true });
+    await webR.FS.rmdir('/tmp/outside');
+  });
+
+  test('Write a file to the VFS using a stream', async () => {
+    const data = new Uint8Array(1000).map((_, i) => i % 256);
+    const writer = webR.FS.createWriteStream('/tmp/streamed', { chunkSize: 64 }).getWriter();
+    await writer.write(data.subarray(0, 600));
+    await writer.write(data.subarray(600));
+    await writer.close();
+    expect(Array.from(await webR.FS.readFile('/tmp/streamed'))).toEqual(Array.from(data));
+
+    // Overwrite part of an existing file
+    const overwrite = webR.FS.createWriteStream('/tmp/streamed', { start: 10 }).getWriter();
+    await overwrite.write(new Uint8Array([0, 0, 0]));
+    await overwrite.close();
+    const contents = await webR.FS.readFile('/tmp/streamed');
+    expect(contents.length).toEqual(1000);
+    expect(Array.from(contents.subarray(8, 15))).toEqual([8, 9, 0, 0, 0, 13, 14]);
+  });
+
+  test('Read a file from the VFS using a stream', async () => {
+    const stream = webR.FS.createReadStream('/tmp/streamed', { chunkSize: 300, start: 100 });
+    const reader = stream.getReader();
+    const chunks: number[][] = [];
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(Array.from(value));
+    }
+    expect(chunks.map((chunk) => chunk.length)).toEqual([300, 300, 300]);
+    expect(chunks.flat()[0]).toEqual(100);
+
+    const range = webR.FS.createReadStream('/tmp/streamed', { start: 20, end: 25 }).getReader();
+    expect(Array.from((await range.read()).value!)).toEqual([20, 21, 22, 23, 24]);
+    expect((await range.read()).done).toBe(true);
+    await webR.FS.unlink('/tmp/streamed');
+  });
+
+  test('Watch a directory on the VFS for changes', async () => {
+    await webR.FS.mkdir('/tmp/watched');
+    const controller = new AbortController();
+    const watcher = webR.FS.watch('/tmp/watched', { signal: controller.signal });
+
+    // Watching begins with the first request for an event
+    const first = watcher.next();
+    await webR.evalRVoid(`
+      writeLines("foo", "/tmp/watched/file.txt")
+      file.rename("/tmp/watched/file.txt", "/tmp/watched/renamed.txt")
+      dir.create("/tmp/watched/subdir")
+      writeLines("bar", "/tmp/watched/subdir/nested.txt")
+      unlink("/tmp/watched/renamed.txt")
+    `);
+
+    const events = [(await first).value];
+    for (let i = 0; i < 4; i++) {
+      events.push((await watcher.next()).value);
+    }
+    expect(events).toEqual([
+      { type: 'create', path: '/tmp/watched/file.txt' },
+      { type: 'modify', path: '/tmp/watched/file.txt' },
+      { type: 'rename', path: '/tmp/watched/renamed.txt', oldPath: '/tmp/watched/file.txt' },
+      { type: 'create', path: '/tmp/watched/subdir' },
+      { type: 'delete', path: '/tmp/watched/renamed.txt' },
+    ]);
+
+    controller.abort();
+    expect((await watcher.next()).done).toBe(true);
+  });
+
+  test('Recursively watch a directory on the VFS for changes', async () => {
+    const watcher = webR.FS.watch('/tmp/watched', { recursive: true });
+    const first = watcher.next();
+    await webR.FS.unlink('/tmp/watched/subdir/nested.txt');
+    await webR.FS.rmdir('/tmp/watched/subdir');
+
+    expect((await first).value).toEqual({ type: 'delete', path: '/tmp/watched/subdir/nested.txt' });
+    expect((await watcher.next()).value).toEqual({ type: 'delete', path: '/tmp/watched/subdir' });
+    await watcher.return();
+    await webR.FS.rmdir('/tmp/watched');
+  });
+
   test('Mount and unmount a directory on the VFS', async () => {
     const fileData = new Uint8Array([4, 6, 6, 9, 2, 0, 1, 6, 0, 9]);
 
@@ -0,0 +1,462 @@
+/**
+ * Internal virtual filesystem archive import and export functionality.
+ * @module Archive
+ */
+
+import { gzip, ungzip, deflateRaw, inflateRaw } from 'pako';
+import { Module } from './emscripten';
+import { readdirFS, resolvePath } from './utils-fs';
+import type { FSArchiveFormat } from './webr-main';
+
+type ArchiveEntry = {
+  // Path relative to the root of the archive, without a trailing slash
+  path: string;
+  mode: number;
+  mtime: Date;
+  type: 'file' | 'directory' | 'symlink';
+  data?: Uint8Array;
+  linkname?: string;
+};
+
+/**
+ * Create an archive of a file or directory on the VFS. The archive contains a
+ * single top-level entry, named for the final component of the path. When the
+ * root directory is archived, its contents are instead at the top level.
+ *
+ * Symbolic links to files are archived as regular files. Links to directories
+ * and broken links are not included.
+ * @internal
+ */
+export function exportArchive(path: string, format: FSArchiveFormat): Uint8Array {
+  const root = resolvePath(path);
+  const entries: ArchiveEntry[] = [];
+  collectEntries(root, root.split('/').pop() || '', entries);
+
+  switch (format) {
+    case 'zip':
+      return writeZip(entries);
+    case 'tar.gz':
+      return gzip(writeTar(entries));
+    default:
+      throw new Error(`Unsupported archive format \`${format as string}\`.`);
+  }
+}
+
+/**
+ * Extract a zip, tar or gzipped tar archive into a directory on the VFS. The
+ * archive format is detected from its content. The directory is created if it
+ * does not already exist, and existing files are overwritten.
+ *
+ * Entries are not extracted outside of the directory, either directly or by
+ * way of a symbolic link. Symbolic links must be relative, and must not point
+ * outside of the directory. Every entry is checked before any are extracted,
+ * so nothing is written for a rejected archive.
+ * @internal
+ */
+export function importArchive(data: Uint8Array, mountpoint: string): string[] {
+  let entries: ArchiveEntry[];
+  if (data[0] === 0x50 && data[1] === 0x4b) {
+    entries = readZip(data);
+  } else if (data[0] === 0x1f && data[1] === 0x8b) {
+    entries = readTar(ungzip(data));
+  } else {
+    entries = readTar(data);
+  }
+
+  const root = resolvePath(mountpoint);
+
+  // Check every entry before extracting any, so that nothing is written for a
+  // rejected archive. Links in the archive are checked as they'd be created.
+  const links = new Set<string>();
+  const paths = entries.map((entry) => {
+    const parts = entry.path.split('/').filter((part) => part && part !== '.');
+    if (parts.length === 0) {
+      return parts;
+    }
+    // Don't allow entries to be extracted outside of the target directory
+    if (parts.includes('..')) {
+      throw new Error(`Can't extract archive entry \`${entry.path}\` outside of \`${mountpoint}\`.`);
+    }
+    if (entry.type === 'symlink' && !isContained(parts.slice(0, -1), entry.linkname!)) {
+      throw new Error(
+        `Can't extract symbolic link \`${entry.path}\` to \`${entry.linkname!}\` ` +
+        `outside of \`${mountpoint}\`.`
+      );
+    }
+    checkLinks(root, entry.type === 'symlink' ? parts.slice(0, -1) : parts, entry.path, links);
+    if (entry.type === 'symlink') {
+      links.add(parts.join('/'));
+    }
+    return parts;
+  });
+
+  Module.FS.mkdirTree(root);
+  return entries.map((entry, i) => {
+    const parts = paths[i];
+    if (parts.length === 0) {
+      return '';
+    }
+
+    const target = `${root === '/' ? '' : root}/${parts.join('/')}`;
+    if (parts.length > 1) {
+      Module.FS.mkdirTree(target.slice(0, target.lastIndexOf('/')));
+    }
+    switch (entry.type) {
+      case 'directory':
+        Module.FS.mkdirTree(target);
+        break;
+      case 'symlink':
+        if (Module.FS.analyzePath(target, true).exists) {
+          Module.FS.unlink(target);
+        }
+        Module.FS.symlink(entry.linkname!, target);
+        return target;
+      case 'file':
+        Module.FS.writeFile(target, entry.data!);
+        break;
+    }
+    if (entry.mode) {
+      Module.FS.chmod(target, entry.mode & 0o7777);
+    }
+    Module.FS.utime(target, entry.mtime.getTime(), entry.mtime.getTime());
+    return target;
+  }).filter((target) => target);
+}
+
+// Check that a relative symbolic link, in the directory given by `parts`,
+// points to a path within the root of the archive
+function isContained(parts: string[], linkname: string): boolean {
+  if (linkname.startsWith('/')) {
+    return false;
+  }
+  const path = [...parts];
+  for (const part of linkname.split('/')) {
+    if (part === '..') {
+      if (path.length === 0) {
+        return false;
+      }
+      path.pop();
+    } else if (part && part !== '.') {
+      path.push(part);
+    }
+  }
+  return true;
+}
+
+// Refuse to write through symbolic links beneath the root directory, either
+// existing or created by earlier entries of the archive
+function checkLinks(root: string, parts: string[], name: string, links: Set<string>) {
+  const base = root === '/' ? '' : root;
+  let exists = true;
+  parts.forEach((_, i) => {
+    const path = `${base}/${parts.slice(0, i + 1).join('/')}`;
+    exists = exists && Module.FS.analyzePath(path, true).exists;
+    if (links.has(parts.slice(0, i + 1).join('/')) ||
+        (exists && Module.FS.isLink(Module.FS.lstat(path).mode))) {
+      throw new Error(
+        `Can't extract archive entry \`${name}\` through the symbolic link \`${path}\`.`
+      );
+    }
+  });
+}
+
+function collectEntries(path: string, name: string, entries: ArchiveEntry[]) {
+  const lstat = Module.FS.lstat(path);
+  if (Module.FS.isDir(lstat.mode)) {
+    if (name) {
+      entries.push({ path: name, mode: lstat.mode, mtime: lstat.mtime, type: 'directory' });
+    }
+    readdirFS(path).forEach((child) => {
+      collectEntries(`${path === '/' ? '' : path}/${child}`, name ? `${name}/${child}` : child, entries);
+    });
+    return;
+  }
+
+  let stat = lstat;
+  if (Module.FS.isLink(lstat.mode)) {
+    try {
+      stat = Module.FS.stat(path);
+    } catch (e) {
+      return;
+    }
+  }
+  if (Module.FS.isFile(stat.mode)) {
+    entries.push({
+      path: name,
+      mode: stat.mode,
+      mtime: stat.mtime,
+      type: 'file',
+      data: Module.FS.readFile(path),
+    });
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((len, chunk) => len + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return out;
+}
+
+// tar -----------------------------------------------------------------
+
+function writeTar(entries: ArchiveEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+
+  entries.forEach((entry) => {
+    const header = new Uint8Array(512);
+    const writeString = (value: string, offset: number, length: number) => {
+      header.set(encoder.encode(value).subarray(0, length), offset);
+    };
+    const writeOctal = (value: number, offset: number, length: number) => {
+      writeString(value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+    };
+
+    // Long paths are split between the `name` and `prefix` fields
+    let name = entry.type === 'directory' ? `${entry.path}/` : entry.path;
+    let prefix = '';
+    if (encoder.encode(name).length > 100) {
+      const split = name.lastIndexOf('/', name.length - 2);
+      prefix = name.slice(0, split);
+      name = name.slice(split + 1);
+      if (split < 0 || encoder.encode(name).length > 100 || encoder.encode(prefix).length > 155) {
+        throw new Error(`Path \`${entry.path}\` is too long to be written to a tar archive.`);
+      }
+    }
+
+    const size = entry.data ? entry.data.length : 0;
+    writeString(name, 0, 100);
+    writeOctal(entry.mode & 0o7777, 100, 8);
+    writeOctal(0, 108, 8);
+    writeOctal(0, 116, 8);
+    writeOctal(size, 124, 12);
+    writeOctal(Math.floor(entry.mtime.getTime() / 1000), 136, 12);
+    writeString(entry.type === 'directory' ? '5' : '0', 156, 1);
+    writeString('ustar\x0000', 257, 8);
+    writeString(prefix, 345, 155);
+
+    // The checksum is calculated with the checksum field filled with spaces
+    header.fill(0x20, 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    writeString(`${checksum.toString(8).padStart(6, '0')}\x00 `, 148, 8);
+
+    chunks.push(header);
+    if (entry.data) {
+      chunks.push(entry.data);
+      chunks.push(new Uint8Array((512 - (size % 512)) % 512));
+    }
+  });
+
+  chunks.push(new Uint8Array(1024));
+  return concat(chunks);
+}
+
+function readTar(data: Uint8Array): ArchiveEntry[] {
+  const decoder = new TextDecoder();
+  const entries: ArchiveEntry[] = [];
+  const readString = (offset: number, length: number) => {
+    const bytes = data.subarray(offset, offset + length);
+    const end = bytes.indexOf(0);
+    return decoder.decode(end < 0 ? bytes : bytes.subarray(0, end));
+  };
+  const readOctal = (offset: number, length: number) => {
+    return parseInt(readString(offset, length).trim() || '0', 8);
+  };
+
+  // A path given by a preceding pax or GNU long name header
+  let longName: string | undefined;
+  let offset = 0;
+  while (offset + 512 <= data.length && data[offset] !== 0) {
+    const header = offset;
+    const size = readOctal(header + 124, 12);
+    const type = String.fromCharCode(data[header + 156]);
+    const content = data.subarray(header + 512, header + 512 + size);
+    offset += 512 + 512 * Math.ceil(size / 512);
+
+    if (type === 'x') {
+      const path = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(decoder.decode(content));
+      longName = path ? path[1] : longName;
+      continue;
+    } else if (type === 'L') {
+      longName = decoder.decode(content).replace(/\0+$/, '');
+      continue;
+    }
+
+    const name = readString(header, 100);
+    const prefix = readString(header + 257, 6) === 'ustar' ? readString(header + 345, 155) : '';
+    const entry: ArchiveEntry = {
+      path: (longName ?? (prefix ? `${prefix}/${name}` : name)).replace(/\/$/, ''),
+      mode: readOctal(header + 100, 8),
+      mtime: new Date(readOctal(header + 136, 12) * 1000),
+      type: 'file',
+    };
+    longName = undefined;
+
+    if (type === '5') {
+      entry.type = 'directory';
+    } else if (type === '2') {
+      entry.type = 'symlink';
+      entry.linkname = readString(header + 157, 100);
+    } else if (type === '0' || type === '\0' || type === '7') {
+      entry.data = content.slice();
+    } else {
+      // Skip hard links, devices and other special files
+      continue;
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+// zip -----------------------------------------------------------------
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeZip(entries: ArchiveEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.type === 'directory' ? `${entry.path}/` : entry.path);
+    const data = entry.data ?? new Uint8Array(0);
+    // Store data that is not made smaller by compression
+    const deflated = data.length > 0 ? deflateRaw(data) : data;
+    const method = deflated.length < data.length ? 8 : 0;
+    const compressed = method === 8 ? deflated : data;
+    const crc = crc32(data);
+
+    // MS-DOS date and time, in local time
+    const t = entry.mtime;
+    const time = (t.getHours() << 11) | (t.getMinutes() << 5) | (t.getSeconds() >> 1);
+    const date = (Math.max(t.getFullYear() - 1980, 0) << 9) | ((t.getMonth() + 1) << 5) | t.getDate();
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true);
+    lv.setUint16(8, method, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, compressed.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    // Unix file modes are stored in the high bits of the external attributes
+    const record = new Uint8Array(46 + name.length);
+    const cv = new DataView(record.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, (3 << 8) | 20, true);
+    record.set(local.subarray(4, 28), 6);
+    cv.setUint32(38, (entry.mode << 16) | (entry.type === 'directory' ? 0x10 : 0), true);
+    cv.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    chunks.push(local, compressed);
+    central.push(record);
+    offset += local.length + compressed.length;
+  });
+
+  const size = central.reduce((len, record) => len + record.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, size, true);
+  ev.setUint32(16, offset, true);
+
+  return concat([...chunks, ...central, end]);
+}
+
+function readZip(data: Uint8Array): ArchiveEntry[] {
+  const decoder = new TextDecoder();
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // Find the end of central directory record, preceding any archive comment
+  let end = data.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error("Can't find the central directory of the zip archive.");
+  }
+
+  const entries: ArchiveEntry[] = [];
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Invalid zip archive central directory.');
+    }
+    const madeBy = view.getUint16(offset + 4, true) >> 8;
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const attrs = view.getUint32(offset + 38, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error('Zip64 archives are not supported.');
+    }
+
+    // Unix file modes are only given by archives created on Unix systems
+    const mode = madeBy === 3 ? attrs >>> 16 : 0;
+    const entry: ArchiveEntry = {
+      path: name.replace(/\/$/, ''),
+      mode: mode & 0o7777,
+      mtime: new Date(
+        (date >> 9) + 1980, ((date >> 5) & 0xf) - 1, date & 0x1f,
+        time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2
+      ),
+      type: name.endsWith('/') ? 'directory' : 'file',
+    };
+
+    if (entry.type === 'file') {
+      const start = localOffset + 30 +
+        view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const compressed = data.subarray(start, start + compressedSize);
+      if (method === 0) {
+        entry.data = compressed.slice();
+      } else if (method === 8) {
+        entry.data = inflateRaw(compressed);
+      } else {
+        throw new Error(`Unsupported zip compression method for \`${name}\`.`);
+      }
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
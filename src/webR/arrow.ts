@@ -0,0 +1,710 @@
+/**
+ * Reading and writing of tabular data in the Apache Arrow IPC stream format.
+ * @module Arrow
+ */
+
+// Only the subset of the format required to exchange data frames with R is
+// implemented here: flat columns of boolean, integer, floating point, UTF-8
+// string, date and timestamp type, optionally dictionary encoded. Arrow IPC
+// metadata is encoded as FlatBuffers, which are read and written directly
+// rather than through generated code.
+//
+// See https://arrow.apache.org/docs/format/Columnar.html for details.
+
+/** @internal */
+export type ArrowType =
+  | { id: 'null' }
+  | { id: 'bool' }
+  | { id: 'int'; bitWidth: number; signed: boolean }
+  | { id: 'float'; precision: 'half' | 'single' | 'double' }
+  | { id: 'utf8' }
+  | { id: 'date'; unit: 'day' | 'millisecond' }
+  | { id: 'timestamp'; unit: ArrowTimeUnit; timezone: string | null }
+  | { id: 'unsupported'; typeId: number };
+
+/** @internal */
+export type ArrowTimeUnit = 'second' | 'millisecond' | 'microsecond' | 'nanosecond';
+
+/** @internal */
+export interface ArrowField {
+  name: string;
+  // For dictionary encoded fields, the type of the dictionary values
+  type: ArrowType;
+  dictionary?: { id: number; indexType: { bitWidth: number; signed: boolean }; ordered: boolean };
+}
+
+/**
+ * The data for a column of a record batch. Buffers are given in the order
+ * defined by the Arrow columnar format: the validity bitmap, followed by the
+ * offsets for variable length types, followed by the values.
+ * @internal
+ */
+export interface ArrowData {
+  length: number;
+  nullCount: number;
+  buffers: Uint8Array[];
+}
+
+/** @internal */
+export interface ArrowBatch {
+  length: number;
+  columns: ArrowData[];
+}
+
+/** @internal */
+export interface ArrowTable {
+  fields: ArrowField[];
+  dictionaries: Map<number, ArrowData>;
+  batches: ArrowBatch[];
+}
+
+const MetadataVersionV5 = 4;
+
+const MessageHeader = { Schema: 1, DictionaryBatch: 2, RecordBatch: 3 } as const;
+
+const TypeId = {
+  Null: 1,
+  Int: 2,
+  FloatingPoint: 3,
+  Utf8: 5,
+  Bool: 6,
+  Date: 8,
+  Timestamp: 10,
+} as const;
+
+const precisions = ['half', 'single', 'double'] as const;
+const timeUnits = ['second', 'millisecond', 'microsecond', 'nanosecond'] as const;
+
+// The number of buffers used by a column of the given type
+function bufferCount(field: ArrowField): number {
+  if (field.dictionary) {
+    return 2;
+  }
+  switch (field.type.id) {
+    case 'null':
+      return 0;
+    case 'utf8':
+      return 3;
+    case 'unsupported':
+      throw new Error(
+        `Can't read Arrow column \`${field.name}\`, Arrow type ${field.type.typeId} is not supported.`
+      );
+    default:
+      return 2;
+  }
+}
+
+/**
+ * Test the validity bitmap of an Arrow column.
+ * @param {Uint8Array} validity The validity bitmap, empty if all values are
+ * valid.
+ * @param {number} i The index of the value to test.
+ * @returns {boolean} True if the value at the given index is not null.
+ * @internal
+ */
+export function arrowIsValid(validity: Uint8Array, i: number): boolean {
+  return validity.length === 0 || ((validity[i >> 3] >> (i & 7)) & 1) === 1;
+}
+
+/**
+ * Build a bitmap from a predicate, in the bit order used by Arrow.
+ * @param {number} length The number of bits.
+ * @param {(i: number) => boolean} pred Returns the value of each bit.
+ * @returns {Uint8Array} The bitmap.
+ * @internal
+ */
+export function arrowBitmap(length: number, pred: (i: number) => boolean): Uint8Array {
+  const bitmap = new Uint8Array(Math.ceil(length / 8));
+  for (let i = 0; i < length; i++) {
+    if (pred(i)) {
+      bitmap[i >> 3] |= 1 << (i & 7);
+    }
+  }
+  return bitmap;
+}
+
+/**
+ * Encode an array of strings as an Arrow UTF-8 column.
+ * @param {(string | null)[]} values The strings to encode.
+ * @returns {ArrowData} The column data.
+ * @internal
+ */
+export function arrowUtf8(values: (string | null)[]): ArrowData {
+  const encoder = new TextEncoder();
+  const encoded = values.map((v) => encoder.encode(v ?? ''));
+  const offsets = new Int32Array(values.length + 1);
+  encoded.forEach((v, i) => (offsets[i + 1] = offsets[i] + v.length));
+
+  const data = new Uint8Array(offsets[values.length]);
+  encoded.forEach((v, i) => data.set(v, offsets[i]));
+
+  const nullCount = values.filter((v) => v === null).length;
+  return {
+    length: values.length,
+    nullCount,
+    buffers: [
+      nullCount > 0 ? arrowBitmap(values.length, (i) => values[i] !== null) : new Uint8Array(),
+      new Uint8Array(offsets.buffer),
+      data,
+    ],
+  };
+}
+
+/**
+ * Decode an Arrow UTF-8 column as an array of strings.
+ * @param {ArrowData} column The column data.
+ * @returns {(string | null)[]} The decoded strings.
+ * @internal
+ */
+export function arrowUtf8Values(column: ArrowData): (string | null)[] {
+  const [validity, offsetBuffer, data] = column.buffers;
+  const offsets = arrowView(offsetBuffer, Int32Array);
+  const decoder = new TextDecoder();
+  return [...Array(column.length).keys()].map((i) =>
+    arrowIsValid(validity, i) ? decoder.decode(data.subarray(offsets[i], offsets[i + 1])) : null
+  );
+}
+
+/**
+ * View an Arrow buffer as a typed array, copying the buffer if it is not
+ * suitably aligned.
+ * @param {Uint8Array} buffer The buffer.
+ * @param {TypedArrayConstructor} Ctor The typed array constructor.
+ * @returns {TypedArray} The typed array.
+ * @internal
+ */
+export function arrowView<T extends Int8Array | Int16Array | Int32Array | Uint8Array |
+  Uint16Array | Uint32Array | Float32Array | Float64Array>(
+  buffer: Uint8Array,
+  Ctor: { new(buf: ArrayBufferLike, offset: number, length: number): T; BYTES_PER_ELEMENT: number }
+): T {
+  const size = Ctor.BYTES_PER_ELEMENT;
+  if (buffer.byteOffset % size !== 0) {
+    buffer = buffer.slice();
+  }
+  return new Ctor(buffer.buffer, buffer.byteOffset, Math.floor(buffer.byteLength / size));
+}
+
+/**
+ * Read a 64-bit integer from an Arrow buffer as a JavaScript number. Values
+ * outside the range of safe integers lose precision.
+ * @param {DataView} view A view of the buffer.
+ * @param {number} offset The byte offset of the integer.
+ * @param {boolean} [signed] Whether the integer is signed.
+ * @returns {number} The integer value.
+ * @internal
+ */
+export function arrowGetInt64(view: DataView, offset: number, signed = true): number {
+  const lo = view.getUint32(offset, true);
+  const hi = signed ? view.getInt32(offset + 4, true) : view.getUint32(offset + 4, true);
+  return hi * 0x100000000 + lo;
+}
+
+/**
+ * Write a JavaScript number to an Arrow buffer as a signed 64-bit integer.
+ * @param {DataView} view A view of the buffer.
+ * @param {number} offset The byte offset of the integer.
+ * @param {number} value The integer value.
+ * @internal
+ */
+export function arrowSetInt64(view: DataView, offset: number, value: number) {
+  const hi = Math.floor(value / 0x100000000);
+  view.setUint32(offset, value - hi * 0x100000000, true);
+  view.setInt32(offset + 4, hi, true);
+}
+
+// FlatBuffers -----------------------------------------------------------
+
+type FlatValue =
+  | { kind: 'scalar'; size: 1 | 2 | 4 | 8; value: number }
+  | { kind: 'table'; fields: (FlatValue | null)[] }
+  | { kind: 'string'; value: string }
+  | { kind: 'vector'; items: FlatValue[] }
+  | { kind: 'structs'; size: number; bytes: Uint8Array };
+
+const int8 = (value: number): FlatValue => ({ kind: 'scalar', size: 1, value });
+const int16 = (value: number): FlatValue => ({ kind: 'scalar', size: 2, value });
+const int32 = (value: number): FlatValue => ({ kind: 'scalar', size: 4, value });
+const int64 = (value: number): FlatValue => ({ kind: 'scalar', size: 8, value });
+const table = (...fields: (FlatValue | null)[]): FlatValue => ({ kind: 'table', fields });
+
+/*
+ * Write a FlatBuffer front to back. Each table is preceded by its vtable, and
+ * the objects a table refers to are written after it so that offsets always
+ * point forwards, as required by the format.
+ */
+class FlatWriter {
+  #buf = new Uint8Array(1024);
+  #view = new DataView(this.#buf.buffer);
+  #pos = 0;
+
+  finish(root: FlatValue): Uint8Array {
+    this.#reserve(4);
+    this.#pos = 4;
+    this.#view.setUint32(0, this.#write(root), true);
+    this.#align(8);
+    return this.#buf.slice(0, this.#pos);
+  }
+
+  #reserve(n: number) {
+    if (this.#pos + n <= this.#buf.length) {
+      return;
+    }
+    const buf = new Uint8Array(Math.max(2 * this.#buf.length, this.#pos + n));
+    buf.set(this.#buf);
+    this.#buf = buf;
+    this.#view = new DataView(buf.buffer);
+  }
+
+  // Pad so that the position plus `extra` bytes is aligned to `n` bytes
+  #align(n: number, extra = 0) {
+    const pad = (n - ((this.#pos + extra) % n)) % n;
+    this.#reserve(pad);
+    this.#pos += pad;
+  }
+
+  #setScalar(pos: number, size: number, value: number) {
+    switch (size) {
+      case 1: this.#view.setUint8(pos, value); break;
+      case 2: this.#view.setInt16(pos, value, true); break;
+      case 4: this.#view.setInt32(pos, value, true); break;
+      case 8: arrowSetInt64(this.#view, pos, value); break;
+    }
+  }
+
+  #write(value: FlatValue): number {
+    switch (value.kind) {
+      case 'string': {
+        const bytes = new TextEncoder().encode(value.value);
+        this.#align(4);
+        this.#reserve(bytes.length + 5);
+        const pos = this.#pos;
+        this.#view.setUint32(pos, bytes.length, true);
+        this.#buf.set(bytes, pos + 4);
+        this.#pos += bytes.length + 5;
+        return pos;
+      }
+      case 'structs': {
+        this.#align(8, 4);
+        this.#reserve(value.bytes.length + 4);
+        const pos = this.#pos;
+        this.#view.setUint32(pos, value.bytes.length / value.size, true);
+        this.#buf.set(value.bytes, pos + 4);
+        this.#pos += value.bytes.length + 4;
+        return pos;
+      }
+      case 'vector': {
+        this.#align(4);
+        this.#reserve(4 * value.items.length + 4);
+        const pos = this.#pos;
+        this.#view.setUint32(pos, value.items.length, true);
+        this.#pos += 4 * value.items.length + 4;
+        value.items.forEach((item, i) => {
+          const slot = pos + 4 * (i + 1);
+          const child = this.#write(item);
+          this.#view.setUint32(slot, child - slot, true);
+        });
+        return pos;
+      }
+      case 'table': {
+        // Lay out inline fields by decreasing size, so that they are aligned
+        const present = value.fields
+          .map((field, idx) => ({ field, idx, size: field?.kind === 'scalar' ? field.size : 4 }))
+          .filter((f): f is { field: FlatValue; idx: number; size: 1 | 2 | 4 | 8 } => !!f.field)
+          .sort((a, b) => b.size - a.size);
+        const layout = new Map<number, number>();
+        let size = 4;
+        present.forEach((f) => {
+          size += (f.size - (size % f.size)) % f.size;
+          layout.set(f.idx, size);
+          size += f.size;
+        });
+
+        this.#align(2);
+        const vtableSize = 4 + 2 * value.fields.length;
+        this.#reserve(vtableSize);
+        const vtable = this.#pos;
+        this.#view.setUint16(vtable, vtableSize, true);
+        this.#view.setUint16(vtable + 2, size, true);
+        value.fields.forEach((_, idx) => {
+          this.#view.setUint16(vtable + 4 + 2 * idx, layout.get(idx) ?? 0, true);
+        });
+        this.#pos += vtableSize;
+
+        this.#align(8);
+        this.#reserve(size);
+        const pos = this.#pos;
+        this.#view.setInt32(pos, pos - vtable, true);
+        this.#pos += size;
+
+        present.forEach((f) => {
+          const slot = pos + layout.get(f.idx)!;
+          if (f.field.kind === 'scalar') {
+            this.#setScalar(slot, f.size, f.field.value);
+          } else {
+            const child = this.#write(f.field);
+            this.#view.setUint32(slot, child - slot, true);
+          }
+        });
+        return pos;
+      }
+      case 'scalar':
+        throw new Error('A FlatBuffer scalar must be contained in a table.');
+    }
+  }
+}
+
+class FlatTable {
+  constructor(readonly view: DataView, readonly pos: number) { }
+
+  static root(bytes: Uint8Array): FlatTable {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return new FlatTable(view, view.getUint32(0, true));
+  }
+
+  // The position of a field, or zero if the field is absent
+  field(idx: number): number {
+    const vtable = this.pos - this.view.getInt32(this.pos, true);
+    if (4 + 2 * idx >= this.view.getUint16(vtable, true)) {
+      return 0;
+    }
+    const offset = this.view.getUint16(vtable + 4 + 2 * idx, true);
+    return offset ? this.pos + offset : 0;
+  }
+
+  uint8(idx: number, def = 0): number {
+    const pos = this.field(idx);
+    return pos ? this.view.getUint8(pos) : def;
+  }
+
+  int16(idx: number, def = 0): number {
+    const pos = this.field(idx);
+    return pos ? this.view.getInt16(pos, true) : def;
+  }
+
+  int32(idx: number, def = 0): number {
+    const pos = this.field(idx);
+    return pos ? this.view.getInt32(pos, true) : def;
+  }
+
+  int64(idx: number, def = 0): number {
+    const pos = this.field(idx);
+    return pos ? arrowGetInt64(this.view, pos) : def;
+  }
+
+  #deref(idx: number): number {
+    const pos = this.field(idx);
+    return pos ? pos + this.view.getUint32(pos, true) : 0;
+  }
+
+  table(idx: number): FlatTable | null {
+    const pos = this.#deref(idx);
+    return pos ? new FlatTable(this.view, pos) : null;
+  }
+
+  string(idx: number): string | null {
+    const pos = this.#deref(idx);
+    if (!pos) {
+      return null;
+    }
+    const length = this.view.getUint32(pos, true);
+    const start = this.view.byteOffset + pos + 4;
+    return new TextDecoder().decode(new Uint8Array(this.view.buffer, start, length));
+  }
+
+  tables(idx: number): FlatTable[] {
+    const pos = this.#deref(idx);
+    if (!pos) {
+      return [];
+    }
+    return [...Array(this.view.getUint32(pos, true)).keys()].map((i) => {
+      const slot = pos + 4 * (i + 1);
+      return new FlatTable(this.view, slot + this.view.getUint32(slot, true));
+    });
+  }
+
+  // The positions of each element in a vector of structs
+  structs(idx: number, size: number): number[] {
+    const pos = this.#deref(idx);
+    if (!pos) {
+      return [];
+    }
+    return [...Array(this.view.getUint32(pos, true)).keys()].map((i) => pos + 4 + size * i);
+  }
+}
+
+// Writing ---------------------------------------------------------------
+
+function encodeType(type: ArrowType): [number, FlatValue] {
+  switch (type.id) {
+    case 'null':
+      return [TypeId.Null, table()];
+    case 'bool':
+      return [TypeId.Bool, table()];
+    case 'int':
+      return [TypeId.Int, table(int32(type.bitWidth), int8(type.signed ? 1 : 0))];
+    case 'float':
+      return [TypeId.FloatingPoint, table(int16(precisions.indexOf(type.precision)))];
+    case 'utf8':
+      return [TypeId.Utf8, table()];
+    case 'date':
+      return [TypeId.Date, table(int16(type.unit === 'day' ? 0 : 1))];
+    case 'timestamp':
+      return [
+        TypeId.Timestamp,
+        table(
+          int16(timeUnits.indexOf(type.unit)),
+          type.timezone === null ? null : { kind: 'string', value: type.timezone }
+        ),
+      ];
+    case 'unsupported':
+      return [type.typeId, table()];
+  }
+}
+
+function encodeField(field: ArrowField): FlatValue {
+  const [typeId, type] = encodeType(field.type);
+  const dict = field.dictionary;
+  return table(
+    { kind: 'string', value: field.name },
+    int8(1),
+    int8(typeId),
+    type,
+    dict
+      ? table(
+        int64(dict.id),
+        table(int32(dict.indexType.bitWidth), int8(dict.indexType.signed ? 1 : 0)),
+        int8(dict.ordered ? 1 : 0)
+      )
+      : null,
+    { kind: 'vector', items: [] }
+  );
+}
+
+function encodeBatch(batch: ArrowBatch): { header: FlatValue; body: Uint8Array } {
+  const buffers = batch.columns.flatMap((column) => column.buffers);
+  const padded = (n: number) => Math.ceil(n / 8) * 8;
+
+  const nodes = new DataView(new ArrayBuffer(16 * batch.columns.length));
+  batch.columns.forEach((column, i) => {
+    arrowSetInt64(nodes, 16 * i, column.length);
+    arrowSetInt64(nodes, 16 * i + 8, column.nullCount);
+  });
+
+  const spec = new DataView(new ArrayBuffer(16 * buffers.length));
+  const body = new Uint8Array(buffers.reduce((n, buf) => n + padded(buf.length), 0));
+  let offset = 0;
+  buffers.forEach((buf, i) => {
+    arrowSetInt64(spec, 16 * i, offset);
+    arrowSetInt64(spec, 16 * i + 8, buf.length);
+    body.set(buf, offset);
+    offset += padded(buf.length);
+  });
+
+  return {
+    header: table(
+      int64(batch.length),
+      { kind: 'structs', size: 16, bytes: new Uint8Array(nodes.buffer) },
+      { kind: 'structs', size: 16, bytes: new Uint8Array(spec.buffer) }
+    ),
+    body,
+  };
+}
+
+function encodeMessage(headerType: number, header: FlatValue, body: Uint8Array): Uint8Array[] {
+  const meta = new FlatWriter().finish(
+    table(int16(MetadataVersionV5), int8(headerType), header, int64(body.length))
+  );
+  const prefix = new DataView(new ArrayBuffer(8));
+  prefix.setUint32(0, 0xffffffff, true);
+  prefix.setInt32(4, meta.length, true);
+  return [new Uint8Array(prefix.buffer), meta, body];
+}
+
+/**
+ * Encode a table in the Arrow IPC stream format.
+ * @param {ArrowTable} arrowTable The table to encode.
+ * @returns {Uint8Array} The encoded stream.
+ * @internal
+ */
+export function writeArrowStream(arrowTable: ArrowTable): Uint8Array {
+  const parts = encodeMessage(
+    MessageHeader.Schema,
+    table(int16(0), { kind: 'vector', items: arrowTable.fields.map(encodeField) }),
+    new Uint8Array()
+  );
+
+  arrowTable.dictionaries.forEach((data, id) => {
+    const { header, body } = encodeBatch({ length: data.length, columns: [data] });
+    parts.push(...encodeMessage(MessageHeader.DictionaryBatch, table(int64(id), header), body));
+  });
+
+  arrowTable.batches.forEach((batch) => {
+    const { header, body } = encodeBatch(batch);
+    parts.push(...encodeMessage(MessageHeader.RecordBatch, header, body));
+  });
+
+  // End of stream marker
+  parts.push(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0]));
+
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  parts.reduce((offset, part) => {
+    out.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return out;
+}
+
+// Reading ---------------------------------------------------------------
+
+function decodeType(typeId: number, type: FlatTable | null): ArrowType {
+  switch (typeId) {
+    case TypeId.Null:
+      return { id: 'null' };
+    case TypeId.Bool:
+      return { id: 'bool' };
+    case TypeId.Int:
+      return { id: 'int', bitWidth: type?.int32(0) ?? 32, signed: !!type?.uint8(1) };
+    case TypeId.FloatingPoint:
+      return { id: 'float', precision: precisions[type?.int16(0) ?? 0] };
+    case TypeId.Utf8:
+      return { id: 'utf8' };
+    case TypeId.Date:
+      return { id: 'date', unit: type?.int16(0, 1) === 0 ? 'day' : 'millisecond' };
+    case TypeId.Timestamp:
+      return {
+        id: 'timestamp',
+        unit: timeUnits[type?.int16(0) ?? 0],
+        timezone: type?.string(1) ?? null,
+      };
+    default:
+      return { id: 'unsupported', typeId };
+  }
+}
+
+function decodeField(field: FlatTable): ArrowField {
+  const out: ArrowField = {
+    name: field.string(0) ?? '',
+    type: decodeType(field.uint8(2), field.table(3)),
+  };
+  const dict = field.table(4);
+  if (dict) {
+    const indexType = dict.table(1);
+    out.dictionary = {
+      id: dict.int64(0),
+      indexType: indexType
+        ? { bitWidth: indexType.int32(0), signed: !!indexType.uint8(1) }
+        : { bitWidth: 32, signed: true },
+      ordered: !!dict.uint8(2),
+    };
+  }
+  if (field.tables(5).length > 0) {
+    out.type = { id: 'unsupported', typeId: field.uint8(2) };
+  }
+  return out;
+}
+
+function decodeBatch(header: FlatTable, body: Uint8Array, fields: ArrowField[]): ArrowBatch {
+  if (header.table(3)) {
+    throw new Error("Can't read compressed Arrow record batches.");
+  }
+  const view = header.view;
+  const nodes = header.structs(1, 16);
+  const buffers = header.structs(2, 16).map((pos) => {
+    const offset = arrowGetInt64(view, pos);
+    return body.subarray(offset, offset + arrowGetInt64(view, pos + 8));
+  });
+
+  let next = 0;
+  return {
+    length: header.int64(0),
+    columns: fields.map((field, i) => {
+      const count = bufferCount(field);
+      next += count;
+      return {
+        length: arrowGetInt64(view, nodes[i]),
+        nullCount: arrowGetInt64(view, nodes[i] + 8),
+        buffers: buffers.slice(next - count, next),
+      };
+    }),
+  };
+}
+
+/**
+ * Decode a table encoded in the Arrow IPC stream or file format.
+ * @param {Uint8Array} bytes The encoded table.
+ * @returns {ArrowTable} The decoded table.
+ * @internal
+ */
+export function readArrowStream(bytes: Uint8Array): ArrowTable {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const out: ArrowTable = { fields: [], dictionaries: new Map(), batches: [] };
+
+  // The file format begins with the magic string `ARROW1`, padded to 8 bytes,
+  // followed by the messages of an IPC stream. The schema is found in the
+  // footer at the end of the file, and may not be repeated in the stream.
+  let pos = 0;
+  let schema = false;
+  if (new TextDecoder().decode(bytes.subarray(0, 6)) === 'ARROW1') {
+    const footerEnd = bytes.length - 10;
+    const footer = FlatTable.root(
+      bytes.subarray(footerEnd - view.getInt32(footerEnd, true), footerEnd)
+    );
+    out.fields = footer.table(1)?.tables(1).map(decodeField) ?? [];
+    schema = true;
+    pos = 8;
+  }
+
+  while (pos + 4 <= bytes.length) {
+    let length = view.getInt32(pos, true);
+    pos += 4;
+    if (length === -1) {
+      length = view.getInt32(pos, true);
+      pos += 4;
+    }
+    if (length === 0) {
+      break;
+    }
+
+    const message = FlatTable.root(bytes.subarray(pos, pos + length));
+    pos += length;
+    const bodyLength = message.int64(3);
+    const body = bytes.subarray(pos, pos + bodyLength);
+    pos += bodyLength;
+
+    const header = message.table(2);
+    if (!header) {
+      continue;
+    }
+    switch (message.uint8(1)) {
+      case MessageHeader.Schema:
+        out.fields = header.tables(1).map(decodeField);
+        schema = true;
+        break;
+      case MessageHeader.DictionaryBatch: {
+        const id = header.int64(0);
+        const data = header.table(1);
+        if (header.uint8(2)) {
+          throw new Error("Can't read Arrow dictionary deltas.");
+        }
+        const field = out.fields.find((f) => f.dictionary?.id === id);
+        if (data && field) {
+          const valueField = { name: field.name, type: field.type };
+          out.dictionaries.set(id, decodeBatch(data, body, [valueField]).columns[0]);
+        }
+        break;
+      }
+      case MessageHeader.RecordBatch:
+        if (!schema) {
+          throw new Error("Can't read Arrow record batch, the stream has no schema.");
+        }
+        out.batches.push(decodeBatch(header, body, out.fields));
+        break;
+    }
+  }
+
+  if (!schema) {
+    throw new Error("Can't read Arrow data, no schema was found.");
+  }
+  return out;
+}
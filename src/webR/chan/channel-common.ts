@@ -1,6 +1,7 @@
 import { SharedBufferChannelMain, SharedBufferChannelWorker } from './channel-shared';
 import { ServiceWorkerChannelMain, ServiceWorkerChannelWorker } from './channel-service';
 import { PostMessageChannelMain, PostMessageChannelWorker } from './channel-postmessage';
+import { MessagePortChannelMain, MessagePortChannelWorker } from './channel-messageport';
 import { WebROptions } from '../webr-main';
 import { WebRChannelError } from '../error';
 
@@ -13,6 +14,7 @@ export const ChannelType = {
   SharedArrayBuffer: 1,
   ServiceWorker: 2,
   PostMessage: 3,
+  MessagePort: 4,
 } as const;
 
 export type ChannelInitMessage = {
@@ -36,6 +38,8 @@ export function newChannelMain(data: Required<WebROptions>) {
       return new ServiceWorkerChannelMain(data);
     case ChannelType.PostMessage:
       return new PostMessageChannelMain(data);
+    case ChannelType.MessagePort:
+      return new MessagePortChannelMain(data);
     case ChannelType.Automatic:
     default:
       if (typeof SharedArrayBuffer !== 'undefined') {
@@ -54,6 +58,8 @@ export function newChannelWorker(msg: ChannelInitMessage) {
       return new ServiceWorkerChannelWorker(msg.data);
     case ChannelType.PostMessage:
       return new PostMessageChannelWorker();
+    case ChannelType.MessagePort:
+      return new MessagePortChannelWorker();
     default:
       throw new WebRChannelError('Unknown worker channel type received');
   }
@@ -0,0 +1,362 @@
+import { promiseHandles } from '../utils';
+import { Message, newRequest, Response, Request, newResponse, StreamMessage } from './message';
+import { AsyncQueue } from './queue';
+import { ChannelType } from './channel-common';
+import { WebROptions } from '../webr-main';
+import { ChannelMain, ChannelWorker } from './channel';
+import { WebRChannelError } from '../error';
+import { InterruptSignalMain, InterruptSignalMessage, InterruptSignalWorker } from './interrupt';
+
+// The MessagePort channel communicates with a webR worker over a MessagePort
+// supplied by the caller, rather than constructing a new worker. The worker
+// may be hosted elsewhere, e.g. as a SharedWorker or by a parent frame that
+// forwards the other end of the port to a dedicated worker.
+//
+// Several main threads may connect to the same worker. Requests from each
+// connection are handled in turn, and output generated while handling a
+// request is sent back over the connection that made the request. Like the
+// PostMessage channel, the worker is unable to block for input.
+
+// Main ----------------------------------------------------------------
+
+export class MessagePortChannelMain extends ChannelMain {
+  initialised: Promise<unknown>;
+  resolve: (_?: unknown) => void;
+  reject: (message: string | Error) => void;
+  close: () => void;
+  #port: MessagePort;
+  #interruptSignal: InterruptSignalMain;
+
+  constructor(config: Required<WebROptions>) {
+    super();
+    ({ resolve: this.resolve, reject: this.reject, promise: this.initialised } = promiseHandles());
+
+    if (!config.messagePort) {
+      throw new WebRChannelError(
+        'A `messagePort` must be provided when using the `MessagePort` communication channel.'
+      );
+    }
+    const port = config.messagePort;
+    this.#port = port;
+    port.onmessage = (ev: MessageEvent) => this.#onMessageFromWorker(ev.data as Message);
+
+    this.close = () => {
+      port.postMessage({ type: 'disconnect' });
+      port.close();
+      this.#interruptSignal.close();
+      this.putClosedMessage();
+    };
+
+    // The port itself is not sent as part of the worker configuration
+    const msg = {
+      type: 'init',
+      data: {
+        config: { ...config, messagePort: null },
+        channelType: ChannelType.MessagePort,
+      },
+    } as Message;
+    port.postMessage(msg);
+
+    this.#interruptSignal = new InterruptSignalMain((msg, transfer) => {
+      port.postMessage(msg, transfer ?? []);
+    });
+  }
+
+  interrupt() {
+    this.signalInterrupt();
+    this.inputQueue.reset();
+  }
+
+  protected signalInterrupt() {
+    this.#interruptSignal.signal();
+  }
+
+  protected clearInterrupt() {
+    this.#interruptSignal.clear();
+  }
+
+  #onMessageFromWorker = async (message: Message) => {
+    if (!message || !message.type) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'resolve':
+        this.resolve();
+        return;
+
+      case 'response':
+        this.resolveResponse(message as Response);
+        return;
+
+      case 'stream':
+        this.resolveStream(message as StreamMessage);
+        return;
+
+      case 'system':
+        this.systemQueue.put(message.data as Message);
+        return;
+
+      default:
+        this.putOutput(message);
+        return;
+
+      case 'request': {
+        const msg = message as Request;
+        const payload = msg.data.msg;
+
+        switch (payload.type) {
+          case 'read': {
+            const input = await this.nextInput();
+            this.#port.postMessage(newResponse(msg.data.uuid, input));
+            break;
+          }
+          default:
+            throw new WebRChannelError(`Unsupported request type '${payload.type}'.`);
+        }
+        return;
+      }
+
+      case 'sync-request':
+        throw new WebRChannelError(
+          "Can't send messages of type 'sync-request' in MessagePort mode. Use 'request' instead."
+        );
+    }
+  };
+}
+
+// Worker --------------------------------------------------------------
+
+import { Module as _Module } from '../emscripten';
+
+declare let Module: _Module;
+
+export class MessagePortChannelWorker implements ChannelWorker {
+  #ports = new Map<MessagePort, InterruptSignalWorker>();
+  #parked = new Map<string, (input: Message) => void>();
+  #inputs = new AsyncQueue<{ port: MessagePort; msg: Message }>();
+  // The connection whose input is currently being handled, if any
+  #current?: MessagePort;
+  #dispatch: (msg: Message) => void = () => 0;
+  #interrupt = () => { return; };
+  #lastInterruptReq = Date.now();
+  #promptDepth = 0;
+  #resolved = false;
+  #running = false;
+
+  /**
+   * Add a new connection to the worker over the given MessagePort.
+   * @param {MessagePort} port The worker end of the connection.
+   */
+  connect(port: MessagePort) {
+    this.#ports.set(port, new InterruptSignalWorker());
+    port.onmessage = (ev: MessageEvent) => this.#onMessageFromPort(port, ev.data as Message);
+
+    if (this.#resolved) {
+      port.postMessage({ type: 'resolve' });
+    }
+    if (this.#running) {
+      this.#requestInput(port);
+    }
+  }
+
+  resolve() {
+    this.#resolved = true;
+    this.#ports.forEach((_, port) => port.postMessage({ type: 'resolve' }));
+  }
+
+  write(msg: Message, transfer?: [Transferable]) {
+    if (this.#current) {
+      if (this.#ports.has(this.#current)) {
+        this.#current.postMessage(msg, transfer ?? []);
+      }
+      return;
+    }
+    // Output not associated with a request is sent to every connection
+    this.#ports.forEach((_, port) => port.postMessage(msg));
+  }
+
+  writeSystem(msg: Message, transfer?: [Transferable]) {
+    this.write({ type: 'system', data: msg }, transfer);
+  }
+
+  read(): Message {
+    throw new WebRChannelError(
+      'Unable to synchronously read when using the `MessagePort` channel.'
+    );
+  }
+
+  syncRequest(): unknown {
+    throw new WebRChannelError(
+      'Unable to make synchronous requests when using the `MessagePort` channel.'
+    );
+  }
+
+  inputOrDispatch(): number {
+    if (this.#promptDepth > 0) {
+      this.#promptDepth = 0;
+      const msg = Module.allocateUTF8OnStack(
+        "Can't block for input when using the MessagePort communication channel."
+      );
+      Module._Rf_error(msg);
+    }
+    this.#promptDepth++;
+    // Unable to block, so just return a NULL
+    return 0;
+  }
+
+  run(_args: string[]) {
+    const args: string[] = _args || [];
+    args.unshift('R');
+    const argc = args.length;
+    const argv = Module._malloc(4 * (argc + 1));
+    args.forEach((arg, idx) => {
+      const argvPtr = argv + 4 * idx;
+      const argPtr = Module.allocateUTF8(arg);
+      Module.setValue(argvPtr, argPtr, '*');
+    });
+
+    this.writeSystem({
+      type: 'console.warn',
+      data: 'WebR is using `MessagePort` communication channel, nested R REPLs are not available.',
+    });
+
+    Module._Rf_initialize_R(argc, argv);
+    Module._setup_Rmainloop();
+    Module._R_ReplDLLinit();
+    Module._R_ReplDLLdo1();
+    void this.#asyncREPL();
+  }
+
+  setDispatchHandler(dispatch: (msg: Message) => void) {
+    this.#dispatch = dispatch;
+  }
+
+  setInterrupt(interrupt: () => void) {
+    this.#interrupt = interrupt;
+  }
+
+  handleInterrupt() {
+    /* As with the PostMessage channel, we hook into R's PolledEvents and
+     * synchronously check the interrupt signal. Only the connection that
+     * made the currently running request may interrupt it.
+     */
+    if (this.#current && Date.now() > this.#lastInterruptReq + 200) {
+      this.#lastInterruptReq = Date.now();
+      if (this.#ports.get(this.#current)?.check()) {
+        this.#interrupt();
+      }
+    }
+  }
+
+  onMessageFromMainThread() {
+    // Messages arrive over the connected MessagePorts instead
+    return;
+  }
+
+  #onMessageFromPort(port: MessagePort, message: Message) {
+    if (!message || !message.type) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'response': {
+        const msg = message as Response;
+        const resolve = this.#parked.get(msg.data.uuid);
+        if (resolve) {
+          this.#parked.delete(msg.data.uuid);
+          resolve(msg.data.resp as Message);
+        } else {
+          console.warn("Can't find request.");
+        }
+        return;
+      }
+      case 'interruptSignal':
+        this.#ports.get(port)?.set(message as InterruptSignalMessage);
+        return;
+      case 'disconnect':
+        this.#ports.delete(port);
+        port.close();
+        return;
+    }
+  }
+
+  /*
+   * Ask the main thread on the other end of the port for its next input. At
+   * most one input is requested from each connection at a time, so that the
+   * main thread only considers a request dispatched once the worker is ready
+   * to handle it.
+   */
+  #requestInput(port: MessagePort) {
+    const req = newRequest({ type: 'read' });
+    this.#parked.set(req.data.uuid, (msg: Message) => {
+      this.#inputs.put({ port, msg });
+    });
+    port.postMessage(req);
+  }
+
+  /*
+   * A fallback REPL, as used by the PostMessage channel, taking input from
+   * each of the connected main threads in turn. See the comments in
+   * `PostMessageChannelWorker` for details.
+   */
+  #asyncREPL = async () => {
+    this.#running = true;
+    this.#ports.forEach((_, port) => this.#requestInput(port));
+
+    for (; ;) {
+      const { port, msg } = await this.#inputs.get();
+      if (!this.#ports.has(port)) {
+        continue;
+      }
+
+      this.#current = port;
+      try {
+        this.#promptDepth = 0;
+        if (msg.type === 'stdin') {
+          // Copy the new input into WASM memory
+          const str = Module.allocateUTF8(msg.data as string);
+          Module._strcpy(Module._DLLbuf, str);
+          Module.setValue(Module._DLLbufp, Module._DLLbuf, '*');
+          Module._free(str);
+
+          // Execute the R code using a single step of R's built in REPL
+          try {
+            while (Module._R_ReplDLLdo1() > 0);
+          } catch (e: any) {
+            if (e instanceof (WebAssembly as any).Exception) {
+              // R error: clear command buffer and reproduce prompt
+              Module._R_ReplDLLinit();
+              Module._R_ReplDLLdo1();
+            } else {
+              throw e;
+            }
+          }
+        } else {
+          this.#dispatch(msg);
+        }
+      } catch (e) {
+        // Close on unrecoverable error
+        if (e instanceof WebAssembly.RuntimeError) {
+          this.#current = undefined;
+          this.writeSystem({ type: 'console.error', data: e.message });
+          this.writeSystem({
+            type: 'console.error',
+            data: "An unrecoverable WebAssembly error has occurred, the webR worker will be closed.",
+          });
+          this.writeSystem({ type: 'close', data: e.message });
+        }
+        // Don't break the REPL loop on other Wasm `Exception` errors
+        if (!(e instanceof (WebAssembly as any).Exception)) {
+          throw e;
+        }
+      } finally {
+        this.#current = undefined;
+      }
+
+      if (this.#ports.has(port)) {
+        this.#requestInput(port);
+      }
+    }
+  };
+}
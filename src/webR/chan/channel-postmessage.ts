@@ -1,10 +1,11 @@
 import { promiseHandles, ResolveFn, newCrossOriginWorker, isCrossOrigin } from '../utils';
-import { Message, newRequest, Response, Request, newResponse } from './message';
+import { Message, newRequest, Response, Request, newResponse, StreamMessage } from './message';
 import { Endpoint } from './task-common';
 import { ChannelType } from './channel-common';
 import { WebROptions } from '../webr-main';
 import { ChannelMain } from './channel';
 import { WebRChannelError, WebRWorkerError } from '../error';
+import { InterruptSignalMain, InterruptSignalMessage, InterruptSignalWorker } from './interrupt';
 
 import { IN_NODE } from '../compat';
 import type { Worker as NodeWorker } from 'worker_threads';
@@ -21,6 +22,7 @@ export class PostMessageChannelMain extends ChannelMain {
   reject: (message: string | Error) => void;
   close: () => void = () => { return; };
   #worker?: Worker;
+  #interruptSignal?: InterruptSignalMain;
 
   constructor(config: Required<WebROptions>) {
     super();
@@ -31,6 +33,7 @@ export class PostMessageChannelMain extends ChannelMain {
       this.#handleEventsFromWorker(worker);
       this.close = () => {
         worker.terminate();
+        this.#interruptSignal?.close();
         this.putClosedMessage();
       };
       const msg = {
@@ -38,6 +41,9 @@ export class PostMessageChannelMain extends ChannelMain {
         data: { config, channelType: ChannelType.PostMessage },
       } as Message;
       worker.postMessage(msg);
+      this.#interruptSignal = new InterruptSignalMain((msg, transfer) => {
+        worker.postMessage(msg, transfer ?? []);
+      });
     };
 
     if (isCrossOrigin(config.baseUrl)) {
@@ -55,7 +61,19 @@ export class PostMessageChannelMain extends ChannelMain {
   }
 
   interrupt() {
-    console.error('Interrupting R execution is not available when using the PostMessage channel');
+    this.signalInterrupt();
+    this.inputQueue.reset();
+  }
+
+  protected signalInterrupt() {
+    if (!this.#interruptSignal) {
+      throw new WebRChannelError('Failed attempt to interrupt before initialising the worker');
+    }
+    this.#interruptSignal.signal();
+  }
+
+  protected clearInterrupt() {
+    this.#interruptSignal?.clear();
   }
 
   #handleEventsFromWorker(worker: Worker) {
@@ -95,12 +113,16 @@ export class PostMessageChannelMain extends ChannelMain {
         this.resolveResponse(message as Response);
         return;
 
+      case 'stream':
+        this.resolveStream(message as StreamMessage);
+        return;
+
       case 'system':
         this.systemQueue.put(message.data as Message);
         return;
 
       default:
-        this.outputQueue.put(message);
+        this.putOutput(message);
         return;
 
       case 'request': {
@@ -109,7 +131,7 @@ export class PostMessageChannelMain extends ChannelMain {
 
         switch (payload.type) {
           case 'read': {
-            const input = await this.inputQueue.get();
+            const input = await this.nextInput();
             if (this.#worker) {
               const response = newResponse(msg.data.uuid, input);
               this.#worker.postMessage(response);
@@ -140,6 +162,9 @@ export class PostMessageChannelWorker {
   #ep: Endpoint;
   #parked = new Map<string, ResolveFn>();
   #dispatch: (msg: Message) => void = () => 0;
+  #interrupt = () => { return; };
+  #interruptSignal = new InterruptSignalWorker();
+  #lastInterruptReq = Date.now();
   #promptDepth = 0;
 
   constructor() {
@@ -164,6 +189,12 @@ export class PostMessageChannelWorker {
     );
   }
 
+  syncRequest(): unknown {
+    throw new WebRChannelError(
+      'Unable to make synchronous requests when using the `PostMessage` channel.'
+    );
+  }
+
   inputOrDispatch(): number {
     if (this.#promptDepth > 0) {
       this.#promptDepth = 0;
@@ -214,10 +245,32 @@ export class PostMessageChannelWorker {
     return prom;
   }
 
-  setInterrupt() { return; }
-  handleInterrupt() { return; }
+  setInterrupt(interrupt: () => void) {
+    this.#interrupt = interrupt;
+  }
+
+  handleInterrupt() {
+    /* During R computation the worker thread does not process messages, so
+     * we hook into R's PolledEvents and synchronously check the interrupt
+     * signal provided by the main thread.
+     *
+     * The rate of checks is limited to once every 200ms. This stops R being
+     * slowed down by sync XHR requests while it is working.
+     */
+    if (Date.now() > this.#lastInterruptReq + 200) {
+      this.#lastInterruptReq = Date.now();
+      if (this.#interruptSignal.check()) {
+        this.#interrupt();
+      }
+    }
+  }
 
   onMessageFromMainThread(message: Message) {
+    if (message.type === 'interruptSignal') {
+      this.#interruptSignal.set(message as InterruptSignalMessage);
+      return;
+    }
+
     const msg = message as Response;
     const uuid = msg.data.uuid;
     const resolve = this.#parked.get(uuid);
@@ -277,7 +330,7 @@ export class PostMessageChannelWorker {
             type: 'console.error',
             data: "An unrecoverable WebAssembly error has occurred, the webR worker will be closed.",
           });
-          this.writeSystem({ type: 'close' });
+          this.writeSystem({ type: 'close', data: e.message });
         }
         // Don't break the REPL loop on other Wasm `Exception` errors
         if (!(e instanceof (WebAssembly as any).Exception)) {
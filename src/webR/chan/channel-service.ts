@@ -5,6 +5,7 @@ import {
   Response,
   Request,
   newResponse,
+  StreamMessage,
 } from './message';
 import { encode, decode } from '@msgpack/msgpack';
 import { Endpoint } from './task-common';
@@ -12,6 +13,7 @@ import { ChannelMain, ChannelWorker } from './channel';
 import { ChannelType } from './channel-common';
 import { WebROptions } from '../webr-main';
 import { WebRChannelError, WebRWorkerError } from '../error';
+import { JsCallMessage } from '../webr-chan';
 
 import { IN_NODE } from '../compat';
 import type { Worker as NodeWorker } from 'worker_threads';
@@ -31,6 +33,7 @@ export class ServiceWorkerChannelMain extends ChannelMain {
   #syncMessageCache = new Map<string, Message>();
   #registration?: ServiceWorkerRegistration;
   #interrupted = false;
+  #resetOnInterrupt = false;
 
   constructor(config: Required<WebROptions>) {
     super();
@@ -87,6 +90,15 @@ export class ServiceWorkerChannelMain extends ChannelMain {
 
   interrupt() {
     this.#interrupted = true;
+    this.#resetOnInterrupt = true;
+  }
+
+  protected signalInterrupt() {
+    this.#interrupted = true;
+  }
+
+  protected clearInterrupt() {
+    this.#interrupted = false;
   }
 
   async #registerServiceWorker(url: string): Promise<string> {
@@ -128,7 +140,16 @@ export class ServiceWorkerChannelMain extends ChannelMain {
       this.#syncMessageCache.delete(uuid);
       switch (message.type) {
         case 'read': {
-          const response = await this.inputQueue.get();
+          const response = await this.nextInput();
+          this.activeRegistration().postMessage({
+            type: 'wasm-webr-fetch-response',
+            uuid: uuid,
+            response: newResponse(uuid, response),
+          });
+          break;
+        }
+        case 'jsCall': {
+          const response = await this.handleJsCall(message as JsCallMessage);
           this.activeRegistration().postMessage({
             type: 'wasm-webr-fetch-response',
             uuid: uuid,
@@ -143,8 +164,11 @@ export class ServiceWorkerChannelMain extends ChannelMain {
             uuid: uuid,
             response: newResponse(uuid, response),
           });
-          this.inputQueue.reset();
+          if (this.#resetOnInterrupt) {
+            this.inputQueue.reset();
+          }
           this.#interrupted = false;
+          this.#resetOnInterrupt = false;
           break;
         }
         default:
@@ -191,12 +215,16 @@ export class ServiceWorkerChannelMain extends ChannelMain {
         this.resolveResponse(message as Response);
         return;
 
+      case 'stream':
+        this.resolveStream(message as StreamMessage);
+        return;
+
       case 'system':
         this.systemQueue.put(message.data as Message);
         return;
 
       default:
-        this.outputQueue.put(message);
+        this.putOutput(message);
         return;
 
       case 'sync-request': {
@@ -248,7 +276,7 @@ export class ServiceWorkerChannelWorker implements ChannelWorker {
     this.#ep.postMessage({ type: 'system', data: msg }, transfer);
   }
 
-  syncRequest(message: Message): Response {
+  syncRequest(message: Message): unknown {
     /*
      * Browsers timeout service workers after about 5 minutes on inactivity.
      * See e.g. service_worker_version.cc in Chromium.
@@ -274,7 +302,7 @@ export class ServiceWorkerChannelWorker implements ChannelWorker {
           uuid: request.data.uuid,
         };
         xhr.send(encode(fetchReqBody));
-        return decode(xhr.response as ArrayBuffer) as Response;
+        return (decode(xhr.response as ArrayBuffer) as Response).data.resp;
       } catch (e: any) {
         if (e instanceof DOMException && retryCount++ < 1000) {
           console.log('Service worker request failed - resending request');
@@ -286,8 +314,7 @@ export class ServiceWorkerChannelWorker implements ChannelWorker {
   }
 
   read(): Message {
-    const response = this.syncRequest({ type: 'read' });
-    return response.data.resp as Message;
+    return this.syncRequest({ type: 'read' }) as Message;
   }
 
   inputOrDispatch(): number {
@@ -310,7 +337,7 @@ export class ServiceWorkerChannelWorker implements ChannelWorker {
           type: 'console.error',
           data: "An unrecoverable WebAssembly error has occurred, the webR worker will be closed.",
         });
-        this.writeSystem({ type: 'close' });
+        this.writeSystem({ type: 'close', data: e.message });
       }
       throw e;
     }
@@ -331,8 +358,7 @@ export class ServiceWorkerChannelWorker implements ChannelWorker {
      */
     if (Date.now() > this.#lastInterruptReq + 1000) {
       this.#lastInterruptReq = Date.now();
-      const response = this.syncRequest({ type: 'interrupt' });
-      const interrupted = response.data.resp as boolean;
+      const interrupted = this.syncRequest({ type: 'interrupt' }) as boolean;
       if (interrupted) {
         this.#interrupt();
       }
@@ -1,11 +1,12 @@
 import { promiseHandles, newCrossOriginWorker, isCrossOrigin } from '../utils';
-import { Message, Response, SyncRequest } from './message';
+import { Message, Response, StreamMessage, SyncRequest } from './message';
 import { Endpoint } from './task-common';
 import { syncResponse } from './task-main';
 import { ChannelMain, ChannelWorker } from './channel';
 import { ChannelType } from './channel-common';
 import { WebROptions } from '../webr-main';
 import { WebRChannelError, WebRWorkerError } from '../error';
+import { JsCallMessage } from '../webr-chan';
 
 import { IN_NODE } from '../compat';
 import type { Worker as NodeWorker } from 'worker_threads';
@@ -55,13 +56,23 @@ export class SharedBufferChannelMain extends ChannelMain {
   }
 
   interrupt() {
+    this.signalInterrupt();
+    this.inputQueue.reset();
+  }
+
+  protected signalInterrupt() {
     if (!this.#interruptBuffer) {
       throw new WebRChannelError('Failed attempt to interrupt before initialising interruptBuffer');
     }
-    this.inputQueue.reset();
     this.#interruptBuffer[0] = 1;
   }
 
+  protected clearInterrupt() {
+    if (this.#interruptBuffer) {
+      this.#interruptBuffer[0] = 0;
+    }
+  }
+
   #handleEventsFromWorker(worker: Worker) {
     if (IN_NODE) {
       (worker as unknown as NodeWorker).on('message', (message: Message) => {
@@ -100,12 +111,16 @@ export class SharedBufferChannelMain extends ChannelMain {
         this.resolveResponse(message as Response);
         return;
 
+      case 'stream':
+        this.resolveStream(message as StreamMessage);
+        return;
+
       case 'system':
         this.systemQueue.put(message.data as Message);
         return;
 
       default:
-        this.outputQueue.put(message);
+        this.putOutput(message);
         return;
 
       case 'sync-request': {
@@ -115,7 +130,12 @@ export class SharedBufferChannelMain extends ChannelMain {
 
         switch (payload.type) {
           case 'read': {
-            const response = await this.inputQueue.get();
+            const response = await this.nextInput();
+            await syncResponse(worker, reqData, response);
+            break;
+          }
+          case 'jsCall': {
+            const response = await this.handleJsCall(payload as JsCallMessage);
             await syncResponse(worker, reqData, response);
             break;
           }
@@ -163,9 +183,12 @@ export class SharedBufferChannelWorker implements ChannelWorker {
   }
 
   read(): Message {
-    const msg = { type: 'read' } as Message;
+    return this.syncRequest({ type: 'read' }) as Message;
+  }
+
+  syncRequest(msg: Message): unknown {
     const task = new SyncTask(this.#ep, msg);
-    return task.syncify() as Message;
+    return task.syncify();
   }
 
   inputOrDispatch(): number {
@@ -188,7 +211,7 @@ export class SharedBufferChannelWorker implements ChannelWorker {
           type: 'console.error',
           data: "An unrecoverable WebAssembly error has occurred, the webR worker will be closed.",
         });
-        this.writeSystem({ type: 'close' });
+        this.writeSystem({ type: 'close', data: e.message });
       }
       throw e;
     }
@@ -5,9 +5,11 @@
 
 import { promiseHandles, ResolveFn, RejectFn } from '../utils';
 import { AsyncQueue } from './queue';
-import { Message, newRequest, Response } from './message';
+import { Message, newRequest, Request, Response, StreamMessage } from './message';
 import { WebRPayload, WebRPayloadWorker, webRPayloadAsError } from '../payload';
-import { WebRChannelError } from '../error';
+import { WebRChannelError, WebRInterruptError } from '../error';
+import type { JsCallMessage } from '../webr-chan';
+import type { WebRDataJs, WebRDataRaw } from '../robj';
 
 // The channel structure is asymmetric:
 //
@@ -29,18 +31,74 @@ import { WebRChannelError } from '../error';
 //   serialised. There is no structured cloning involved, and
 //   ArrayBuffers can't be transferred, only copied.
 
+/**
+ * Options controlling the lifetime of a single request sent over the
+ * communication channel.
+ */
+export interface RequestOptions {
+  /**
+   * A signal used to cancel the request. Requests still waiting in the input
+   * queue are removed, running requests are interrupted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Cancel the request if it has not completed after this many milliseconds.
+   */
+  timeoutMs?: number;
+  /**
+   * Called with the response to a cancelled request, should the worker have
+   * completed the request regardless, so that any R objects it returned may
+   * be released.
+   * @internal
+   */
+  onDiscard?: (payload: WebRPayloadWorker) => void;
+}
+
 export abstract class ChannelMain {
   inputQueue = new AsyncQueue<Message>();
   outputQueue = new AsyncQueue<Message>();
   systemQueue = new AsyncQueue<Message>();
 
   #parked = new Map<string, { resolve: ResolveFn; reject: RejectFn }>();
+  #streams = new Map<string, (event: Message) => void>();
   #closed = false;
 
+  // Requests that have been read by the worker but not yet responded to
+  #dispatched = new Set<string>();
+  // Cancelled requests, either still in the input queue or awaiting a response
+  #aborted = new Set<string>();
+  // Cancelled requests that were running when the worker was interrupted
+  #interrupted = new Set<string>();
+  // Handlers for the responses of cancelled requests
+  #discarded = new Map<string, (payload: WebRPayloadWorker) => void>();
+  // Deferred messages, written before any other message to preserve ordering
+  #deferred = new Set<() => void>();
+  // Functions that may be called from R using a `jsCall` sync-request
+  #functions = new Map<string, (...args: WebRDataJs[]) => unknown>();
+
+  /**
+   * Called with each output message received from the worker. Messages for
+   * which the handler returns `true` are not added to the output queue.
+   */
+  onOutput?: (msg: Message) => boolean;
+
   abstract initialised: Promise<unknown>;
   abstract close(): void;
   abstract interrupt(): void;
 
+  /**
+   * Signal the worker to interrupt the currently running R computation,
+   * without discarding any other pending input.
+   */
+  protected abstract signalInterrupt(): void;
+
+  /**
+   * Withdraw an interrupt signalled with `signalInterrupt()`, should the
+   * worker not have acted on it yet. Called once the interrupted request has
+   * been responded to, so that the signal does not interrupt the next request.
+   */
+  protected abstract clearInterrupt(): void;
+
   async read(): Promise<Message> {
     return await this.outputQueue.get();
   }
@@ -61,26 +119,230 @@ export abstract class ChannelMain {
     if (this.#closed) {
       throw new WebRChannelError("The webR communication channel has been closed.");
     }
+    this.#writeDeferred();
     this.inputQueue.put(msg);
   }
 
-  async request(msg: Message, transferables?: [Transferable]): Promise<WebRPayload> {
-    const req = newRequest(msg, transferables);
+  /**
+   * Defer writing a message until the end of the current task, so that the
+   * message may be amended in the meantime. Deferred messages are written
+   * before any other message, so that message order is preserved.
+   * @param {() => void} send Called once, to write the deferred message.
+   * @returns {() => void} A function that writes the deferred message
+   * immediately, if it has not already been written.
+   */
+  defer(send: () => void): () => void {
+    const flush = () => {
+      if (this.#deferred.delete(send)) {
+        send();
+      }
+    };
+    this.#deferred.add(send);
+    queueMicrotask(flush);
+    return flush;
+  }
+
+  #writeDeferred() {
+    for (const send of this.#deferred) {
+      this.#deferred.delete(send);
+      send();
+    }
+  }
+
+  async request(
+    msg: Message,
+    transferables?: [Transferable],
+    options: RequestOptions = {}
+  ): Promise<WebRPayload> {
+    if (options.signal?.aborted) {
+      throw new WebRInterruptError('The request was aborted before being sent to webR.');
+    }
+    return this.#sendRequest(newRequest(msg, transferables), options);
+  }
+
+  /**
+   * Send a request to the worker, invoking `onEvent` for each stream message
+   * the worker emits while handling the request. All stream events are
+   * delivered before the returned promise settles.
+   * @param {Message} msg The request message.
+   * @param {(event: Message) => void} onEvent Called with each stream event.
+   * @param {RequestOptions} [options] Options for cancelling the request.
+   * @returns {Promise<WebRPayload>} The response payload.
+   */
+  async requestStream(
+    msg: Message,
+    onEvent: (event: Message) => void,
+    options: RequestOptions = {}
+  ): Promise<WebRPayload> {
+    if (options.signal?.aborted) {
+      throw new WebRInterruptError('The request was aborted before being sent to webR.');
+    }
+
+    const req = newRequest(msg);
+    this.#streams.set(req.data.uuid, onEvent);
+    try {
+      return await this.#sendRequest(req, options);
+    } finally {
+      this.#streams.delete(req.data.uuid);
+    }
+  }
+
+  async #sendRequest(req: Request, options: RequestOptions): Promise<WebRPayload> {
+    const { signal, timeoutMs, onDiscard } = options;
+    const uuid = req.data.uuid;
 
     const { resolve, reject, promise } = promiseHandles();
-    this.#parked.set(req.data.uuid, { resolve, reject });
+    this.#parked.set(uuid, { resolve, reject });
 
-    this.write(req);
-    return promise as Promise<WebRPayload>;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => this.#abortRequest(uuid, 'The request was aborted.', onDiscard);
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        this.#abortRequest(uuid, `The request timed out after ${timeoutMs}ms.`, onDiscard);
+      }, timeoutMs);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      this.write(req);
+      return (await promise) as WebRPayload;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /*
+   * Reject a parked request with a `WebRInterruptError`. If the worker is
+   * already handling the request it is interrupted, otherwise the request is
+   * skipped once it reaches the front of the input queue. Should the worker
+   * complete the request regardless, its response is given to `onDiscard`.
+   */
+  #abortRequest(
+    uuid: string,
+    message: string,
+    onDiscard?: (payload: WebRPayloadWorker) => void
+  ) {
+    const handles = this.#parked.get(uuid);
+    if (!handles) {
+      return;
+    }
+    this.#parked.delete(uuid);
+    this.#aborted.add(uuid);
+
+    if (this.#dispatched.has(uuid)) {
+      this.signalInterrupt();
+      this.#interrupted.add(uuid);
+      if (onDiscard) {
+        this.#discarded.set(uuid, onDiscard);
+      }
+    }
+    handles.reject(new WebRInterruptError(message));
+  }
+
+  /**
+   * Take the next message for the worker from the input queue, skipping any
+   * requests that have been cancelled while waiting in the queue.
+   * @internal
+   */
+  protected async nextInput(): Promise<Message> {
+    for (; ;) {
+      const msg = await this.inputQueue.get();
+      if (msg.type !== 'request') {
+        return msg;
+      }
+      const uuid = (msg as Request).data.uuid;
+      if (this.#aborted.delete(uuid)) {
+        continue;
+      }
+      this.#dispatched.add(uuid);
+      return msg;
+    }
+  }
+
+  /**
+   * Register a function that may be called by the worker using a `jsCall`
+   * sync-request. A function registered with an existing name replaces the
+   * previous function.
+   * @param {string} name The name used to call the function.
+   * @param {(...args: WebRDataJs[]) => unknown} fn The function, given the
+   * call arguments in the form of {@link WebRDataJs} objects.
+   */
+  registerFunction(name: string, fn: (...args: WebRDataJs[]) => unknown) {
+    this.#functions.set(name, fn);
+  }
+
+  /**
+   * Call a registered function in response to a `jsCall` sync-request,
+   * returning the result, or the error thrown, as a payload for the worker.
+   * @internal
+   */
+  protected async handleJsCall(msg: JsCallMessage): Promise<WebRPayloadWorker> {
+    const { name, args } = msg.data;
+    try {
+      const fn = this.#functions.get(name);
+      if (!fn) {
+        throw new WebRChannelError(`No JavaScript function named \`${name}\` has been registered.`);
+      }
+      return { payloadType: 'raw', obj: await fn(...args) as WebRDataRaw };
+    } catch (_e) {
+      const e = _e as Error;
+      return {
+        payloadType: 'err',
+        obj: { name: e.name, message: e.message, stack: e.stack },
+      };
+    }
+  }
+
+  protected putOutput(msg: Message): void {
+    if (!this.onOutput?.(msg)) {
+      this.outputQueue.put(msg);
+    }
   }
 
   protected putClosedMessage(): void {
+    if (this.#closed) {
+      return;
+    }
     this.#closed = true;
-    this.outputQueue.put({ type: 'closed' });
+
+    // Requests still waiting for a response will never receive one
+    this.#parked.forEach(({ reject }) => {
+      reject(new WebRChannelError('The webR communication channel has been closed.'));
+    });
+    this.#parked.clear();
+
+    // Always queued, so that readers of the output queue see the channel close
+    const msg = { type: 'closed' };
+    this.onOutput?.(msg);
+    this.outputQueue.put(msg);
+  }
+
+  protected resolveStream(msg: StreamMessage) {
+    const onEvent = this.#streams.get(msg.data.uuid);
+    if (onEvent) {
+      onEvent(msg.data.event);
+    }
   }
 
   protected resolveResponse(msg: Response) {
     const uuid = msg.data.uuid;
+    this.#dispatched.delete(uuid);
+
+    // The caller has already been notified of a cancelled request
+    if (this.#aborted.delete(uuid)) {
+      if (this.#interrupted.delete(uuid)) {
+        this.clearInterrupt();
+      }
+      const onDiscard = this.#discarded.get(uuid);
+      this.#discarded.delete(uuid);
+      const payload = msg.data.resp as WebRPayloadWorker;
+      if (onDiscard && payload.payloadType !== 'err') {
+        onDiscard(payload);
+      }
+      return;
+    }
+
     const handles = this.#parked.get(uuid);
 
     if (handles) {
@@ -103,6 +365,7 @@ export interface ChannelWorker {
   write(msg: Message, transfer?: [Transferable]): void;
   writeSystem(msg: Message, transfer?: [Transferable]): void;
   read(): Message;
+  syncRequest(msg: Message): unknown;
   handleInterrupt(): void;
   setInterrupt(interrupt: () => void): void;
   run(args: string[]): void;
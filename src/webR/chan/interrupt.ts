@@ -0,0 +1,126 @@
+/**
+ * Interrupt signalling for communication channels without SharedArrayBuffer.
+ * @module Interrupt
+ */
+import { Message } from './message';
+import { IN_NODE } from '../compat';
+import type { MessagePort as NodeMessagePort } from 'worker_threads';
+
+// A busy worker thread does not receive messages until R has finished
+// computing, so an interrupt is signalled through a resource that the worker
+// can check synchronously from R's PolledEvents hook:
+//
+// - In a browser this is an object URL, revoked by the main thread to signal
+//   an interrupt. A revoked URL can only signal once, so a replacement URL is
+//   sent to the worker each time the signal is used.
+//
+// - Under Node, the worker polls a dedicated MessagePort for messages using
+//   `receiveMessageOnPort()`.
+
+/** @internal */
+export interface InterruptSignalMessage extends Message {
+  type: 'interruptSignal';
+  data: { url?: string; port?: NodeMessagePort };
+}
+
+/** @internal */
+export class InterruptSignalMain {
+  #post: (msg: InterruptSignalMessage, transfer?: Transferable[]) => void;
+  #url?: string;
+  #port?: NodeMessagePort;
+
+  constructor(post: (msg: InterruptSignalMessage, transfer?: Transferable[]) => void) {
+    this.#post = post;
+    this.#send();
+  }
+
+  signal() {
+    if (this.#port) {
+      this.#port.postMessage(true);
+      return;
+    }
+    if (this.#url) {
+      URL.revokeObjectURL(this.#url);
+    }
+    this.#send();
+  }
+
+  /**
+   * Withdraw a signal the worker has not yet acted on. A revoked URL has
+   * already been replaced when signalling, but a message posted to the port
+   * remains queued, so the port is replaced.
+   */
+  clear() {
+    if (this.#port) {
+      this.#port.close();
+      this.#send();
+    }
+  }
+
+  close() {
+    if (this.#url) {
+      URL.revokeObjectURL(this.#url);
+      this.#url = undefined;
+    }
+    this.#port?.close();
+  }
+
+  #send() {
+    if (IN_NODE) {
+      const { port1, port2 } = new (require('worker_threads').MessageChannel as {
+        new(): { port1: NodeMessagePort; port2: NodeMessagePort };
+      })();
+      port1.unref();
+      this.#port = port1;
+      this.#post(
+        { type: 'interruptSignal', data: { port: port2 } },
+        [port2 as unknown as Transferable]
+      );
+    } else {
+      this.#url = URL.createObjectURL(new Blob());
+      this.#post({ type: 'interruptSignal', data: { url: this.#url } });
+    }
+  }
+}
+
+/** @internal */
+export class InterruptSignalWorker {
+  #url?: string;
+  #port?: NodeMessagePort;
+
+  set(msg: InterruptSignalMessage) {
+    this.#port?.close();
+    this.#url = msg.data.url;
+    this.#port = msg.data.port;
+  }
+
+  /**
+   * Check for an interrupt signalled by the main thread since the last check.
+   * @returns {boolean} True if an interrupt has been signalled.
+   */
+  check(): boolean {
+    if (this.#port) {
+      const { receiveMessageOnPort } = require('worker_threads') as {
+        receiveMessageOnPort: (port: NodeMessagePort) => { message: unknown } | undefined;
+      };
+      let interrupted = false;
+      while (receiveMessageOnPort(this.#port)) {
+        interrupted = true;
+      }
+      return interrupted;
+    }
+
+    if (this.#url) {
+      try {
+        const xhr = new XMLHttpRequest();
+        xhr.open('GET', this.#url, false);
+        xhr.send();
+      } catch (e) {
+        // The object URL has been revoked, a replacement is sent by main
+        this.#url = undefined;
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -28,6 +28,18 @@ export interface Response {
   };
 }
 
+/**
+ * A webR communication channel stream message, carrying an event emitted by
+ * the worker while it handles the request with the given UUID.
+ */
+export interface StreamMessage {
+  type: 'stream';
+  data: {
+    uuid: UUID;
+    event: Message;
+  };
+}
+
 /** @internal */
 export function newRequest(msg: Message, transferables?: [Transferable]): Request {
   return newRequestResponseMessage(
@@ -56,6 +68,14 @@ export function newResponse(uuid: UUID, resp: unknown, transferables?: [Transfer
   );
 }
 
+/** @internal */
+export function newStreamMessage(uuid: UUID, event: Message): StreamMessage {
+  return {
+    type: 'stream',
+    data: { uuid, event },
+  };
+}
+
 /** @internal */
 function newRequestResponseMessage<T>(msg: T, transferables?: [Transferable]): T {
   // Signal to Synclink that the data contains objects we wish to
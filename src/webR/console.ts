@@ -191,6 +191,9 @@ export class Console {
           break;
         case 'closed':
           return;
+        case 'installProgress':
+          // Package installation progress is not shown by the webR Console
+          break;
         default:
           console.warn(`Unhandled output type for webR Console: ${output.type}.`);
       }
@@ -6,12 +6,13 @@ import type { ChannelWorker } from './chan/channel';
 import type { FSMountOptions } from './webr-main';
 
 export interface Module extends EmscriptenModule {
-  /* Add mkdirTree to FS namespace, missing from @types/emscripten at the
-   * time of writing.
+  /* Add mkdirTree and mknod to FS namespace, missing from @types/emscripten
+   * at the time of writing.
    */
   FS: typeof FS & {
     _mount: typeof FS.mount;
     mkdirTree(path: string): void;
+    mknod(path: string, mode: number, dev: number): FS.FSNode;
     filesystems: {
       [key: string]: Emscripten.FileSystemType;
     }
@@ -32,8 +33,9 @@ export interface Module extends EmscriptenModule {
     status: number;
     response: string | ArrayBuffer;
   };
-  mountImageUrl: (url: string, mountpoint: string) => void;
+  mountImageUrl: (url: string, mountpoint: string) => number;
   mountImagePath: (path: string, mountpoint: string) => void;
+  mountImageVFS: (path: string, mountpoint: string) => void;
   mountDriveFS: (mountpoint: string, options: FSMountOptions<'DRIVEFS'>) => void;
   // Exported Emscripten JS API
   allocateUTF8: typeof allocateUTF8;
@@ -145,8 +147,12 @@ export interface Module extends EmscriptenModule {
     setPrompt: (prompt: string) => void;
     resolveInit: () => void;
     handleEvents: () => void;
+    handleOutput?: (ptr: RPtr) => void;
+    handleCanvasPage?: (id: number) => void;
     dataViewer: (data: RPtr, title: string) => void;
     evalJs: (code: RPtr) => unknown;
+    jsCall: (ptr: RPtr) => RObject;
+    installProgress: (ptr: RPtr) => void;
     evalR: (expr: string | RObject, options?: EvalROptions) => RObject;
     captureR: (expr: string | RObject, options: EvalROptions) => {
       result: RObject,
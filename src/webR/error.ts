@@ -2,6 +2,7 @@
  * Custom Error classes that shall be raised by webR.
  * @module Error
  */
+import type { WebRDataJs } from './robj';
 
 /**
  * A general error raised by webR.
@@ -29,3 +30,77 @@ export class WebRChannelError extends WebRError { }
  * Exceptions related to issues with webR object payloads.
  */
 export class WebRPayloadError extends WebRError { }
+
+/**
+ * Exceptions raised when a request to the webR worker thread is cancelled,
+ * either through an `AbortSignal` or after exceeding its configured timeout.
+ */
+export class WebRInterruptError extends WebRError { }
+
+/**
+ * Details of an R condition object, forwarded from the webR worker thread.
+ */
+export interface RConditionInfo {
+  /** The class vector of the condition, e.g. `['simpleError', 'error', 'condition']`. */
+  class: string[];
+  /** The deparsed call associated with the condition, or `null` if there is none. */
+  call: string | null;
+  /** The condition message. */
+  message: string;
+  /** Deparsed calls on the R call stack when the condition was raised, outermost first. */
+  traceback: string[];
+  /**
+   * Any further fields of the condition object, converted to JavaScript.
+   * Fields that cannot be converted, such as functions, are omitted.
+   */
+  fields: { [key: string]: WebRDataJs };
+}
+
+/**
+ * Exceptions raised by an R error condition signalled while evaluating R code.
+ */
+export class WebRRConditionError extends WebRWorkerError {
+  /** The class vector of the R condition object. */
+  conditionClass: string[];
+  /** The deparsed call associated with the condition, or `null` if there is none. */
+  call: string | null;
+  /** The R condition message, without the call prefix. */
+  conditionMessage: string;
+  /** Deparsed calls on the R call stack when the condition was raised, outermost first. */
+  traceback: string[];
+  /** Any further fields of the R condition object, converted to JavaScript. */
+  fields: { [key: string]: WebRDataJs };
+
+  constructor(msg: string, condition: RConditionInfo) {
+    super(msg);
+    this.conditionClass = condition.class;
+    this.call = condition.call;
+    this.conditionMessage = condition.message;
+    this.traceback = condition.traceback;
+    this.fields = condition.fields;
+  }
+
+  /**
+   * Test if the R condition inherits from the given class.
+   * @param {string} cls The condition class, e.g. `'rlang_error'`.
+   * @returns {boolean} True if the condition class vector includes `cls`.
+   */
+  inherits(cls: string): boolean {
+    return this.conditionClass.includes(cls);
+  }
+
+  /**
+   * The details of the R condition, in a form that can be sent over the webR
+   * communication channel.
+   * @returns {RConditionInfo} The R condition details.
+   */
+  toConditionInfo(): RConditionInfo {
+    return {
+      class: this.conditionClass,
+      call: this.call,
+      message: this.conditionMessage,
+      traceback: this.traceback,
+      fields: this.fields,
+    };
+  }
+}
@@ -69,18 +69,21 @@ export function mountDriveFS(mountpoint: string, options: FSMountOptions<'DRIVEF
 }
 
 /**
- * Download an Emscripten FS image and mount to the VFS
+ * Download an Emscripten FS image and mount to the VFS, returning the number
+ * of bytes downloaded
  * @internal
  */
-export function mountImageUrl(url: string, mountpoint: string) {
+export function mountImageUrl(url: string, mountpoint: string): number {
   if (/\.tgz$|\.tar\.gz$|\.tar$/.test(url)) {
     // New (v2.0) VFS format - metadata appended to package
     const dataResp = Module.downloadFileContent(url);
     if (dataResp.status < 200 || dataResp.status >= 300) {
       throw new Error("Can't download Emscripten filesystem image.");
     }
-    const { data, metadata } = decodeVFSArchive(dataResp.response as ArrayBuffer);
+    const response = dataResp.response as ArrayBuffer;
+    const { data, metadata } = decodeVFSArchive(response);
     mountImageData(data, metadata, mountpoint);
+    return response.byteLength;
   } else {
     // Legacy (v1.0) VFS format - from Emscripten's file_packager
     const urlBase = url.replace(/\.data\.gz$|\.data$|\.js.metadata$/, '');
@@ -100,11 +103,13 @@ export function mountImageUrl(url: string, mountpoint: string) {
     }
 
     // Decompress filesystem data, if required
-    let data = dataResp.response as ArrayBuffer;
+    const response = dataResp.response as ArrayBuffer;
+    let data = response;
     if (metadata.gzip) {
       data = ungzip(data).buffer;
     }
     mountImageData(data, metadata, mountpoint);
+    return (metaResp.response as ArrayBuffer).byteLength + response.byteLength;
   }
 }
 
@@ -140,6 +145,18 @@ export function mountImagePath(path: string, mountpoint: string) {
   }
 }
 
+/**
+ * Read a v2.0 Emscripten FS image from the VFS and mount to the VFS
+ * @internal
+ */
+export function mountImageVFS(path: string, mountpoint: string) {
+  if (!/\.tgz$|\.tar\.gz$/.test(path)) {
+    throw new Error("Can't mount image, only `.tgz` images can be mounted from the VFS.");
+  }
+  const { data, metadata } = decodeVFSArchive(Module.FS.readFile(path).buffer);
+  mountImageData(data, metadata, mountpoint);
+}
+
 // Mount the filesystem image `data` and `metadata` to the VFS at `mountpoint`
 function mountImageData(data: ArrayBufferLike | Buffer, metadata: FSMetaData, mountpoint: string) {
   if (IN_NODE) {
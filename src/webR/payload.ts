@@ -4,7 +4,7 @@
  * @module Payload
  */
 import { WebRDataRaw, RPtr, RType } from './robj';
-import { WebRWorkerError } from './error';
+import { RConditionInfo, WebRRConditionError, WebRWorkerError } from './error';
 
 export type WebRPayloadRaw = {
   obj: WebRDataRaw;
@@ -26,6 +26,7 @@ export type WebRPayloadErr = {
     name: string;
     errno?: number;
     stack?: string;
+    condition?: RConditionInfo;
   };
   payloadType: 'err';
 };
@@ -37,6 +38,13 @@ export type WebRPayloadWorker = WebRPayloadRaw | WebRPayloadPtr | WebRPayloadErr
 
 /* @internal */
 export function webRPayloadAsError(payload: WebRPayloadErr): Error {
+  // Errors raised by R conditions keep the details of the original condition
+  if (payload.obj.condition) {
+    const e = new WebRRConditionError(payload.obj.message, payload.obj.condition);
+    e.stack = payload.obj.stack;
+    return e;
+  }
+
   const e = new WebRWorkerError(payload.obj.message);
   // Forward the error name to the main thread, if more specific than a general `Error`
   if (payload.obj.name == 'ErrnoError') {
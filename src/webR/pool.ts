@@ -0,0 +1,362 @@
+import { WebR, WebROptions, Shelter } from './webr-main';
+import {
+  EvalROptions,
+  EvalRMessageOutputType,
+  EvalRRawDataFrame,
+  EvalRRawMatrix,
+  InstallPackagesResult,
+} from './webr-chan';
+import { RObject } from './robj-main';
+import { WebRError } from './error';
+
+/**
+ * The strategy used by a {@link WebRPool} to choose the session handling each
+ * request.
+ *
+ * - `'round-robin'`: Sessions are used in turn.
+ * - `'least-busy'`: The session with the fewest pending requests is used. Ties
+ *   are broken in round-robin order.
+ */
+export type WebRPoolScheduling = 'round-robin' | 'least-busy';
+
+export interface WebRPoolOptions extends WebROptions {
+  /**
+   * The number of webR sessions started with the pool.
+   * Default: `2`.
+   */
+  size?: number;
+
+  /**
+   * The strategy used to choose the session handling each request.
+   * Default: `'least-busy'`.
+   */
+  scheduling?: WebRPoolScheduling;
+}
+
+interface PoolSession {
+  webR: WebR;
+  pending: number;
+}
+
+/**
+ * A pool of isolated webR sessions
+ *
+ * Each session is an instance of {@link WebR}, running in its own worker thread
+ * with its own R global environment. Requests made using the pool's `evalR`
+ * family of methods are scheduled across the sessions, so that independent
+ * computations may run in parallel rather than waiting in a single session's
+ * input queue.
+ *
+ * Since sessions are isolated, R state created by one request is not
+ * available to requests handled by other sessions. Related requests should be
+ * made using a single session, obtained with the `session` method, or using a
+ * {@link Shelter} created with `new pool.Shelter()`, which remains bound to the
+ * session it was created on.
+ *
+ * Modifications made using the pool's `FS` methods are applied to every
+ * session in the pool. Reading operations are served by the first session.
+ */
+export class WebRPool {
+  #options: WebROptions;
+  #scheduling: WebRPoolScheduling;
+  #sessions: PoolSession[] = [];
+  #next = 0;
+  #owners = new WeakMap<RObject, PoolSession>();
+
+  Shelter;
+
+  /**
+   * @param {WebRPoolOptions} [options] The options used to start each
+   * session, along with the pool size and scheduling strategy.
+   */
+  constructor(options: WebRPoolOptions = {}) {
+    const { size = 2, scheduling = 'least-busy', ...webROptions } = options;
+    if (!Number.isInteger(size) || size < 1) {
+      throw new WebRError('The webR pool size must be a positive integer.');
+    }
+    if (webROptions.messagePort) {
+      throw new WebRError(
+        'A webR pool cannot be started using the `MessagePort` communication channel.'
+      );
+    }
+    this.#options = webROptions;
+    this.#scheduling = scheduling;
+    for (let i = 0; i < size; i++) {
+      this.#sessions.push({ webR: new WebR(webROptions), pending: 0 });
+    }
+
+    this.Shelter = new Proxy(Shelter, {
+      construct: () => this.#schedule((webR) => new webR.Shelter()),
+    }) as unknown as { new(): Promise<Shelter> };
+  }
+
+  /**
+   * @returns {Promise<void>} A promise that resolves once every session in
+   * the pool has been initialised.
+   */
+  async init() {
+    await Promise.all(this.#sessions.map((s) => s.webR.init()));
+  }
+
+  /**
+   * @returns {WebR[]} The sessions currently in the pool.
+   */
+  get sessions(): WebR[] {
+    return this.#sessions.map((s) => s.webR);
+  }
+
+  /**
+   * @returns {number} The number of sessions currently in the pool.
+   */
+  get size(): number {
+    return this.#sessions.length;
+  }
+
+  /**
+   * Start a new webR session, using the pool's options, and add it to the
+   * pool.
+   * @returns {Promise<WebR>} The new session, once initialised.
+   */
+  async newSession(): Promise<WebR> {
+    const session = { webR: new WebR(this.#options), pending: 0 };
+    this.#sessions.push(session);
+    await session.webR.init();
+    return session.webR;
+  }
+
+  /**
+   * Remove a session from the pool and close it. Requests pending in the
+   * session are not completed.
+   * @param {WebR} webR The session to close.
+   */
+  closeSession(webR: WebR) {
+    const idx = this.#sessions.findIndex((s) => s.webR === webR);
+    if (idx < 0) {
+      throw new WebRError('The given webR session is not part of this pool.');
+    }
+    this.#sessions.splice(idx, 1);
+    webR.close();
+  }
+
+  /**
+   * Choose a session from the pool using the scheduling strategy.
+   *
+   * The session is not considered busy by the pool once returned. To keep
+   * track of the work done with the session, use `run` instead.
+   * @returns {WebR} A session from the pool.
+   */
+  session(): WebR {
+    return this.#choose().webR;
+  }
+
+  /**
+   * Run an asynchronous function using a session chosen from the pool. The
+   * session is considered busy until the returned promise has settled.
+   * @template T
+   * @param {(webR: WebR) => Promise<T>} fn The function to run, given the
+   * chosen session as its argument.
+   * @returns {Promise<T>} The result of the function.
+   */
+  async run<T>(fn: (webR: WebR) => Promise<T>): Promise<T> {
+    return this.#schedule(fn);
+  }
+
+  /**
+   * Close every session in the pool.
+   */
+  close() {
+    this.#sessions.forEach((s) => s.webR.close());
+    this.#sessions = [];
+  }
+
+  /**
+   * Attempt to interrupt running R computation in every session in the pool.
+   */
+  interrupt() {
+    this.#sessions.forEach((s) => s.webR.interrupt());
+  }
+
+  /**
+   * Evaluate the given R code using a session chosen from the pool.
+   *
+   * The returned R object reference belongs to the session that evaluated the
+   * code, and should be released using `destroy` when no longer required.
+   * @param {string} code The R code to evaluate.
+   * @param {EvalROptions} [options] Options for the execution environment.
+   * @returns {Promise<RObject>} The result of the computation.
+   */
+  async evalR(code: string, options?: EvalROptions): Promise<RObject> {
+    let owner: PoolSession | undefined;
+    const obj = await this.#schedule((webR, session) => {
+      owner = session;
+      return webR.evalR(code, options);
+    });
+    this.#owners.set(obj, owner!);
+    return obj;
+  }
+
+  async evalRVoid(code: string, options?: EvalROptions) {
+    return this.evalRRaw(code, 'void', options);
+  }
+
+  async evalRBoolean(code: string, options?: EvalROptions) {
+    return this.evalRRaw(code, 'boolean', options);
+  }
+
+  async evalRNumber(code: string, options?: EvalROptions) {
+    return this.evalRRaw(code, 'number', options);
+  }
+
+  async evalRString(code: string, options?: EvalROptions) {
+    return this.evalRRaw(code, 'string', options);
+  }
+
+  /**
+   * Evaluate the given R code using a session chosen from the pool, returning
+   * the result as a raw JavaScript object.
+   * @param {string} code The R code to evaluate.
+   * @param {EvalRMessageOutputType} outputType JavaScript type to return the result as.
+   * @param {EvalROptions} [options] Options for the execution environment.
+   * @returns {Promise<unknown>} The result of the computation.
+   */
+  async evalRRaw(code: string, outputType: 'void', options?: EvalROptions): Promise<void>;
+  async evalRRaw(code: string, outputType: 'boolean', options?: EvalROptions): Promise<boolean>;
+  async evalRRaw(code: string, outputType: 'boolean[]', options?: EvalROptions): Promise<boolean[]>;
+  async evalRRaw(code: string, outputType: 'number', options?: EvalROptions): Promise<number>;
+  async evalRRaw(code: string, outputType: 'number[]', options?: EvalROptions): Promise<number[]>;
+  async evalRRaw(code: string, outputType: 'string', options?: EvalROptions): Promise<string>;
+  async evalRRaw(code: string, outputType: 'string[]', options?: EvalROptions): Promise<string[]>;
+  async evalRRaw(code: string, outputType: 'Float64Array', options?: EvalROptions): Promise<Float64Array>;
+  async evalRRaw(code: string, outputType: 'Int32Array', options?: EvalROptions): Promise<Int32Array>;
+  async evalRRaw(
+    code: string,
+    outputType: 'matrix' | 'matrix:row-major',
+    options?: EvalROptions
+  ): Promise<EvalRRawMatrix>;
+  async evalRRaw(
+    code: string,
+    outputType: 'data.frame',
+    options?: EvalROptions
+  ): Promise<EvalRRawDataFrame>;
+  async evalRRaw(code: string, outputType: 'json', options?: EvalROptions): Promise<string>;
+  async evalRRaw(
+    code: string,
+    outputType: EvalRMessageOutputType,
+    options?: EvalROptions
+  ): Promise<unknown> {
+    return this.#schedule((webR) => webR.evalRRaw(code, outputType as 'string', options));
+  }
+
+  /**
+   * Destroy an R object reference returned by the pool's `evalR` method.
+   * @param {RObject} x An R object reference.
+   */
+  async destroy(x: RObject) {
+    const owner = this.#owners.get(x);
+    if (!owner) {
+      throw new WebRError('The given R object was not created by this pool.');
+    }
+    this.#owners.delete(x);
+    await owner.webR.destroy(x);
+  }
+
+  /**
+   * Install a list of R packages in every session in the pool.
+   * @param {Parameters<WebR['installPackages']>} args Arguments forwarded to
+   * {@link WebR.installPackages}.
+   * @returns {Promise<InstallPackagesResult>} The result of installing the
+   * packages in the first session.
+   */
+  async installPackages(
+    ...args: Parameters<WebR['installPackages']>
+  ): Promise<InstallPackagesResult> {
+    return (await this.#broadcast((webR) => webR.installPackages(...args)))[0];
+  }
+
+  /**
+   * Register a local package repository in every session in the pool.
+   * @param {Parameters<WebR['addLocalRepo']>} args Arguments forwarded to
+   * {@link WebR.addLocalRepo}.
+   * @returns {Promise<string>} The `file:` URL of the repository.
+   */
+  async addLocalRepo(...args: Parameters<WebR['addLocalRepo']>): Promise<string> {
+    return (await this.#broadcast((webR) => webR.addLocalRepo(...args)))[0];
+  }
+
+  FS: WebR['FS'] = {
+    analyzePath: (...args) => this.#first().FS.analyzePath(...args),
+    lookupPath: (...args) => this.#first().FS.lookupPath(...args),
+    stat: (...args) => this.#first().FS.stat(...args),
+    lstat: (...args) => this.#first().FS.lstat(...args),
+    readdir: (...args) => this.#first().FS.readdir(...args),
+    readlink: (...args) => this.#first().FS.readlink(...args),
+    readFile: (...args) => this.#first().FS.readFile(...args),
+    createReadStream: (...args) => this.#first().FS.createReadStream(...args),
+    createWriteStream: (...args) => {
+      // Write each chunk to a stream opened in every session
+      const writers = this.#sessions.map((s) => s.webR.FS.createWriteStream(...args).getWriter());
+      return new WritableStream<ArrayBufferView>({
+        write: async (chunk) => { await Promise.all(writers.map((w) => w.write(chunk))); },
+        close: async () => { await Promise.all(writers.map((w) => w.close())); },
+        abort: async (reason) => { await Promise.all(writers.map((w) => w.abort(reason))); },
+      });
+    },
+    mkdir: async (...args) => (await this.#broadcast((webR) => webR.FS.mkdir(...args)))[0],
+    mkdirTree: async (...args) => { await this.#broadcast((webR) => webR.FS.mkdirTree(...args)); },
+    copy: async (...args) => { await this.#broadcast((webR) => webR.FS.copy(...args)); },
+    remove: async (...args) => { await this.#broadcast((webR) => webR.FS.remove(...args)); },
+    glob: (...args) => this.#first().FS.glob(...args),
+    exportArchive: (...args) => this.#first().FS.exportArchive(...args),
+    importArchive: async (...args) => {
+      return (await this.#broadcast((webR) => webR.FS.importArchive(...args)))[0];
+    },
+    mount: async (...args) => { await this.#broadcast((webR) => webR.FS.mount(...args)); },
+    syncfs: async (...args) => { await this.#broadcast((webR) => webR.FS.syncfs(...args)); },
+    rename: async (...args) => { await this.#broadcast((webR) => webR.FS.rename(...args)); },
+    rmdir: async (...args) => { await this.#broadcast((webR) => webR.FS.rmdir(...args)); },
+    writeFile: async (...args) => { await this.#broadcast((webR) => webR.FS.writeFile(...args)); },
+    unlink: async (...args) => { await this.#broadcast((webR) => webR.FS.unlink(...args)); },
+    unmount: async (...args) => { await this.#broadcast((webR) => webR.FS.unmount(...args)); },
+    watch: (...args) => this.#first().FS.watch(...args),
+  };
+
+  #first(): WebR {
+    if (this.#sessions.length === 0) {
+      throw new WebRError('There are no webR sessions in this pool.');
+    }
+    return this.#sessions[0].webR;
+  }
+
+  #choose(): PoolSession {
+    const sessions = this.#sessions;
+    if (sessions.length === 0) {
+      throw new WebRError('There are no webR sessions in this pool.');
+    }
+
+    let chosen = this.#next % sessions.length;
+    if (this.#scheduling === 'least-busy') {
+      for (let i = 1; i < sessions.length; i++) {
+        const idx = (this.#next + i) % sessions.length;
+        if (sessions[idx].pending < sessions[chosen].pending) {
+          chosen = idx;
+        }
+      }
+    }
+    this.#next = chosen + 1;
+    return sessions[chosen];
+  }
+
+  async #schedule<T>(fn: (webR: WebR, session: PoolSession) => Promise<T>): Promise<T> {
+    const session = this.#choose();
+    session.pending++;
+    try {
+      return await fn(session.webR, session);
+    } finally {
+      session.pending--;
+    }
+  }
+
+  async #broadcast<T>(fn: (webR: WebR) => Promise<T>): Promise<T[]> {
+    return Promise.all(this.#sessions.map((s) => fn(s.webR)));
+  }
+}
@@ -4,12 +4,24 @@
  * @module Proxy
  */
 import { ChannelMain } from './chan/channel';
-import { replaceInObject } from './utils';
-import { isWebRPayloadPtr, WebRPayloadPtr, WebRPayload } from './payload';
+import { promiseHandles, replaceInObject } from './utils';
+import {
+  isWebRPayloadPtr,
+  webRPayloadAsError,
+  WebRPayloadPtr,
+  WebRPayload,
+  WebRPayloadWorker,
+} from './payload';
 import { RType, RCtor, WebRData, WebRDataRaw } from './robj';
 import { isRObject, RObject, isRFunction } from './robj-main';
 import * as RWorker from './robj-worker';
-import { ShelterID, CallRObjectMethodMessage, NewRObjectMessage } from './webr-chan';
+import {
+  ShelterID,
+  CallRObjectMethodMessage,
+  CallRObjectPipelineMessage,
+  NewRObjectMessage,
+  ShelterDestroyMessage,
+} from './webr-chan';
 import type * as Payload from './payload';
 import { WebRError, WebRPayloadError } from './error';
 
@@ -40,11 +52,22 @@ export type DistProxy<U> = U extends RWorker.RObject ? RProxy<U> : U;
  * Function signatures are mapped so that arguments with {@link RWorker.RObject}
  * type instead take {@link RProxy}<{@link RWorker.RObject}> type. Other
  * function arguments remain as they are. The function return type is also
- * converted to a corresponding type using `RProxify` recursively.
+ * converted to a corresponding type using `RProxify` recursively. For
+ * overloaded methods, the last two overload signatures are mapped.
  * @typeParam T The type to convert.
  */
 export type RProxify<T> = T extends Array<any> // [RObject, RObject, ...]
   ? Promise<DistProxy<T[0]>[]>
+  : T extends {
+    (...args: infer U1): infer R1;
+    (...args: infer U2): infer R2;
+  } // Overloaded method, e.g. `toJs()` of an atomic vector
+  ? unknown extends R1 // Methods without arguments also match
+    ? () => RProxify<R2>
+    : {
+      (...args: { [V in keyof U1]: DistProxy<U1[V]> }): RProxify<R1>;
+      (...args: { [V in keyof U2]: DistProxy<U2[V]> }): RProxify<R2>;
+    }
   : T extends (...args: infer U) => any // (...args) => <RObject>
   ? (
     ...args: {
@@ -55,7 +78,38 @@ export type RProxify<T> = T extends Array<any> // [RObject, RObject, ...]
   ? Promise<{
     [U in keyof T]: DistProxy<T[U]>
   }>
-  : Promise<DistProxy<T>>; // RObject, any other types
+  : T extends RWorker.RObject // RObject
+  ? RPipeline<T>
+  : Promise<DistProxy<T>>; // Any other types
+
+/**
+ * A promise to an {@link RProxy}, returned by proxied method calls.
+ *
+ * Further method calls may be chained on the promise before it has resolved.
+ * Chained calls are pipelined: they are sent to the worker thread together in
+ * a single request, and intermediate R objects are resolved on the worker
+ * thread, avoiding a round trip for each call.
+ *
+ * The promise is a proxy, rather than a native promise. It is an
+ * `instanceof Promise` and its `then()`, `catch()` and `finally()` methods
+ * behave as usual, but other properties of `Promise.prototype` are not
+ * available.
+ * @typeParam T The {@link RWorker.RObject} type the promise resolves to a
+ * proxy of.
+ */
+export type RPipeline<T extends RWorker.RObject> = Promise<RProxy<T>> & {
+  [P in Methods<T>]: RProxify<T[P]>;
+};
+
+/**
+ * The `Symbol.asyncDispose` method of an {@link RProxy}, typed only when
+ * explicit resource management is supported by the TypeScript environment.
+ */
+export type RProxyAsyncDisposable = SymbolConstructor extends {
+  readonly asyncDispose: infer S extends symbol;
+}
+  ? { [K in S]: () => Promise<void> }
+  : unknown;
 
 /**
  * Create an {@link RProxy} based on an {@link RWorker.RObject} type parameter.
@@ -78,7 +132,7 @@ export type RProxify<T> = T extends Array<any> // [RObject, RObject, ...]
 export type RProxy<T extends RWorker.RObject> = { [P in Methods<T>]: RProxify<T[P]> } & {
   _payload: WebRPayloadPtr;
   [Symbol.asyncIterator](): AsyncGenerator<RProxy<RWorker.RObject>, void, unknown>;
-};
+} & RProxyAsyncDisposable;
 
 /**
  * Create a proxy constructor based on a {@link RWorker.RObject} class.
@@ -98,9 +152,83 @@ export type ProxyConstructor<T, R> = (T extends abstract new (...args: infer U)
     ): Promise<R>;
   }
   : never) & {
-    [P in Methods<typeof RWorker.RObject>]: RProxify<(typeof RWorker.RObject)[P]>;
+    [P in Methods<T>]: RProxify<T[P]>;
   };
 
+/**
+ * The shelter protecting the R objects referenced by a set of proxies.
+ * @internal
+ */
+export interface ProxyOwner {
+  /** Release the R object referenced by a proxy. */
+  destroy: (x: RObject) => Promise<void>;
+  /** If defined, proxies are released automatically once garbage collected. */
+  finalizer?: ProxyFinalizer;
+}
+
+/**
+ * Release R objects protected by a shelter once the proxies referencing them
+ * have been garbage collected.
+ *
+ * Objects are released in batches, so that many proxies collected at once
+ * result in a single `shelterDestroy` request. Proxies registered before the
+ * shelter was last purged are ignored, since their R objects have already
+ * been released.
+ * @internal
+ */
+export class ProxyFinalizer {
+  #chan: ChannelMain;
+  #shelter: ShelterID;
+  #registry: FinalizationRegistry<{ payload: WebRPayloadPtr; generation: number }>;
+  #pending: WebRPayloadPtr[] = [];
+  #generation = 0;
+
+  constructor(chan: ChannelMain, shelter: ShelterID) {
+    this.#chan = chan;
+    this.#shelter = shelter;
+    this.#registry = new FinalizationRegistry(({ payload, generation }) => {
+      if (generation !== this.#generation) {
+        return;
+      }
+      this.#pending.push(payload);
+      if (this.#pending.length === 1) {
+        setTimeout(() => this.#flush(), 0);
+      }
+    });
+  }
+
+  register(proxy: RObject, payload: WebRPayloadPtr) {
+    this.#registry.register(proxy, { payload, generation: this.#generation }, proxy);
+  }
+
+  unregister(proxy: RObject) {
+    this.#registry.unregister(proxy);
+  }
+
+  reset() {
+    this.#generation++;
+    this.#pending = [];
+  }
+
+  #flush() {
+    const objs = this.#pending;
+    this.#pending = [];
+    if (objs.length === 0) {
+      return;
+    }
+    const msg: ShelterDestroyMessage = {
+      type: 'shelterDestroy',
+      data: { id: this.#shelter, obj: objs },
+    };
+    this.#chan.request(msg).catch((e: Error) => {
+      console.warn(`Unable to release garbage collected R objects: ${e.message}`);
+    });
+  }
+}
+
+/* Symbol used for explicit resource management, undefined where unsupported */
+const asyncDispose = (Symbol as { asyncDispose?: symbol }).asyncDispose;
+
 /* The empty function is used as base when we are proxying RFunction objects.
  * This enables function call semantics on the proxy using the apply hook.
  */
@@ -135,47 +263,175 @@ function targetAsyncIterator(chan: ChannelMain, proxy: RProxy<RWorker.RObject>)
   };
 }
 
-/**
- * Proxy an R object method by providing an async function that requests that
- * the worker thread calls the method and then returns the result.
- *
- * When the optional payload argument has not been provided, an
- * {@link RWorker.RObject} static method is called.
- * @internal
+function toPayloadArgs(args: WebRData[]): WebRPayload[] {
+  return args.map((arg) => {
+    if (isRObject(arg)) {
+      return arg._payload;
+    }
+    return {
+      obj: replaceInObject(arg, isRObject, (obj: RObject) => obj._payload),
+      payloadType: 'raw',
+    } as WebRPayload;
+  });
+}
+
+function fromPayloadReply(chan: ChannelMain, reply: WebRPayloadWorker): unknown {
+  switch (reply.payloadType) {
+    case 'err':
+      throw webRPayloadAsError(reply);
+    case 'ptr':
+      return newRProxy(chan, reply);
+    case 'raw': {
+      const proxyReply = replaceInObject(
+        reply,
+        isWebRPayloadPtr,
+        (obj: WebRPayloadPtr, chan: ChannelMain) => newRProxy(chan, obj),
+        chan
+      ) as WebRPayload;
+      return proxyReply.obj;
+    }
+  }
+}
+
+/*
+ * A pipeline of R object method calls, sent to the worker thread in a single
+ * request. Calls are added to the pipeline until the end of the current task,
+ * or until the result of a call is awaited, whichever comes first.
  */
-export function targetMethod(chan: ChannelMain, prop: string): unknown;
-export function targetMethod(chan: ChannelMain, prop: string, payload: WebRPayloadPtr): unknown;
-export function targetMethod(chan: ChannelMain, prop: string, payload?: WebRPayloadPtr): unknown {
-  return async (..._args: WebRData[]) => {
-    const args = _args.map((arg) => {
-      if (isRObject(arg)) {
-        return arg._payload;
-      }
-      return {
-        obj: replaceInObject(arg, isRObject, (obj: RObject) => obj._payload),
-        payloadType: 'raw',
-      } as WebRPayload;
-    });
+class Pipeline {
+  #chan: ChannelMain;
+  #root: WebRPayloadPtr | undefined | Promise<unknown>;
+  #objType?: RType | RCtor;
+  #calls: { target: number; prop: string; args: WebRData[] }[] = [];
+  #results: Promise<WebRPayloadWorker[]>;
+  #resolve: (results: WebRPayloadWorker[]) => void;
+  #reject: (e: unknown) => void;
+  flush: () => void;
+  sent = false;
 
-    const msg: CallRObjectMethodMessage = {
-      type: 'callRObjectMethod',
-      data: { payload, prop, args: args },
-    };
-    const reply = await chan.request(msg);
+  /*
+   * The pipeline starts from the R object referenced by the given payload, a
+   * static method of the class for the given R object type when the payload
+   * is undefined, or the R object that the given promise resolves to.
+   */
+  constructor(
+    chan: ChannelMain,
+    root: WebRPayloadPtr | undefined | Promise<unknown>,
+    objType?: RType | RCtor
+  ) {
+    this.#chan = chan;
+    this.#root = root;
+    this.#objType = objType;
+    const { promise, resolve, reject } = promiseHandles();
+    this.#results = promise as Promise<WebRPayloadWorker[]>;
+    // Failures are reported to the callers awaiting a result, if any
+    this.#results.catch(() => undefined);
+    this.#resolve = resolve;
+    this.#reject = reject;
+    this.flush = chan.defer(() => this.#send());
+  }
 
-    switch (reply.payloadType) {
-      case 'ptr':
-        return newRProxy(chan, reply);
-      case 'raw': {
-        const proxyReply = replaceInObject(
-          reply,
-          isWebRPayloadPtr,
-          (obj: WebRPayloadPtr, chan: ChannelMain) => newRProxy(chan, obj),
-          chan
-        ) as WebRPayload;
-        return proxyReply.obj;
+  add(target: number, prop: string, args: WebRData[]): number {
+    return this.#calls.push({ target, prop, args }) - 1;
+  }
+
+  async result(idx: number): Promise<unknown> {
+    this.flush();
+    const results = await this.#results;
+    return fromPayloadReply(this.#chan, results[idx]);
+  }
+
+  #send() {
+    this.sent = true;
+    const request = (root: unknown, args: WebRData[][]) => {
+      if (root !== undefined && !isRObject(root) && !isWebRPayloadPtr(root)) {
+        throw new WebRError("Can't call a method on a result that is not an R object.");
       }
+      const msg: CallRObjectPipelineMessage = {
+        type: 'callRObjectPipeline',
+        data: {
+          payload: isRObject(root) ? root._payload : root,
+          objType: this.#objType,
+          calls: this.#calls.map((call, i) => ({
+            target: call.target,
+            prop: call.prop,
+            args: toPayloadArgs(args[i]),
+          })),
+        },
+      };
+      return this.#chan.request(msg);
+    };
+
+    // Arguments may themselves be pipelined results, wait for them to resolve
+    const isThenable = (x: unknown) => !!x && typeof (x as PromiseLike<unknown>).then === 'function';
+    const args = this.#calls.map((call) => call.args);
+    let reply: Promise<WebRPayload>;
+    if (isThenable(this.#root) || args.some((a) => a.some(isThenable))) {
+      reply = Promise.all([
+        this.#root,
+        Promise.all(args.map((a) => Promise.all(a))),
+      ]).then(([root, args]) => request(root, args));
+    } else {
+      reply = request(this.#root, args);
     }
+    reply.then((payload) => this.#resolve(payload.obj as WebRPayloadWorker[]), this.#reject);
+  }
+}
+
+/* Create a promise-like proxy to the result of a pipelined method call.
+ * Awaiting the proxy sends the pipeline, while calling methods on the proxy
+ * adds further calls to the pipeline. The proxy target inherits from
+ * `Promise.prototype`, so that the proxy is an `instanceof Promise`.
+ */
+function newPipelineProxy(chan: ChannelMain, pipeline: Pipeline, idx: number): unknown {
+  let result: Promise<unknown> | undefined;
+  return new Proxy(Object.create(Promise.prototype) as object, {
+    get: (_, prop: string | number | symbol) => {
+      if (prop === 'then' || prop === 'catch' || prop === 'finally') {
+        result ??= pipeline.result(idx);
+        const promise = result;
+        return (...args: unknown[]) => {
+          return (promise[prop] as (...args: unknown[]) => unknown).apply(promise, args);
+        };
+      }
+      if (typeof prop === 'symbol') {
+        return undefined;
+      }
+      return (...args: WebRData[]) => {
+        // Once the pipeline has been sent, start a new pipeline from the result
+        if (pipeline.sent) {
+          const next = new Pipeline(chan, pipeline.result(idx));
+          return newPipelineProxy(chan, next, next.add(-1, prop.toString(), args));
+        }
+        return newPipelineProxy(chan, pipeline, pipeline.add(idx, prop.toString(), args));
+      };
+    },
+  });
+}
+
+/**
+ * Proxy an R object method by providing a function that requests that the
+ * worker thread calls the method and then returns the result.
+ *
+ * The function returns a promise-like {@link RPipeline} proxy. Method calls
+ * chained on the returned proxy are pipelined with the original call.
+ *
+ * When an R object type is given in place of a payload, a static method of
+ * the corresponding {@link RWorker.RObject} subclass is called.
+ * @internal
+ */
+export function targetMethod(chan: ChannelMain, prop: string, objType: RType | RCtor): unknown;
+export function targetMethod(chan: ChannelMain, prop: string, payload: WebRPayloadPtr): unknown;
+export function targetMethod(
+  chan: ChannelMain,
+  prop: string,
+  target: WebRPayloadPtr | RType | RCtor
+): unknown {
+  return (...args: WebRData[]) => {
+    const pipeline = typeof target === 'string'
+      ? new Pipeline(chan, undefined, target)
+      : new Pipeline(chan, target);
+    return newPipelineProxy(chan, pipeline, pipeline.add(-1, prop, args));
   };
 }
 
@@ -186,6 +442,7 @@ async function newRObject(
   chan: ChannelMain,
   objType: RType | RCtor,
   shelter: ShelterID,
+  owner: ProxyOwner | undefined,
   ...args: WebRData[]
 ) {
   const msg: NewRObjectMessage = {
@@ -201,7 +458,7 @@ async function newRObject(
     case 'raw':
       throw new WebRPayloadError('Unexpected raw payload type returned from newRObject');
     case 'ptr':
-      return newRProxy(chan, payload);
+      return newRProxy(chan, payload, owner);
   }
 }
 
@@ -211,12 +468,22 @@ async function newRObject(
  * The proxy targets a particular R object in WebAssembly memory. Methods of the
  * relevant subclass of {@link RWorker.RObject} are proxied, enabling
  * structured manipulation of R objects from the main thread.
+ *
+ * When the R object is protected by a shelter, the shelter may be given as the
+ * proxy's owner. The proxy can then release the object using
+ * `Symbol.asyncDispose`, and is registered for automatic release once garbage
+ * collected if the shelter has a finalizer.
  * @param {ChannelMain} chan The current main thread communication channel.
  * @param {WebRPayloadPtr} payload A webR payload referencing an R object.
+ * @param {ProxyOwner} [owner] The shelter protecting the referenced R object.
  * @returns {RProxy<RWorker.RObject>} An {@link RObject} corresponding to the
  * referenced R object.
  */
-export function newRProxy(chan: ChannelMain, payload: WebRPayloadPtr): RProxy<RWorker.RObject> {
+export function newRProxy(
+  chan: ChannelMain,
+  payload: WebRPayloadPtr,
+  owner?: ProxyOwner
+): RProxy<RWorker.RObject> {
   const proxy = new Proxy(
     // Assume we are proxying an RFunction if the methods list contains 'exec'.
     payload.obj.methods?.includes('exec') ? Object.assign(empty, { ...payload }) : payload,
@@ -226,6 +493,8 @@ export function newRProxy(chan: ChannelMain, payload: WebRPayloadPtr): RProxy<RW
           return payload;
         } else if (prop === Symbol.asyncIterator) {
           return targetAsyncIterator(chan, proxy);
+        } else if (asyncDispose && prop === asyncDispose && owner) {
+          return () => owner.destroy(proxy);
         } else if (payload.obj.methods?.includes(prop.toString())) {
           return targetMethod(chan, prop.toString(), payload);
         }
@@ -236,6 +505,7 @@ export function newRProxy(chan: ChannelMain, payload: WebRPayloadPtr): RProxy<RW
       },
     }
   ) as unknown as RProxy<RWorker.RObject>;
+  owner?.finalizer?.register(proxy, payload);
   return proxy;
 }
 
@@ -245,6 +515,7 @@ export function newRProxy(chan: ChannelMain, payload: WebRPayloadPtr): RProxy<RW
  * @param {ShelterID} shelter The shelter ID to protect returned objects with.
  * @param {(RType | RCtor)} objType The R object type or class, `'object'` for
  * the generic {@link RWorker.RObject} class.
+ * @param {ProxyOwner} [owner] The shelter given as owner of returned proxies.
  * @returns {ProxyConstructor} A proxy to the R object subclass corresponding to
  * the given value of the `objType` argument.
  * @typeParam T The type of the {@link RWorker.RObject} class to be proxied.
@@ -253,12 +524,13 @@ export function newRProxy(chan: ChannelMain, payload: WebRPayloadPtr): RProxy<RW
 export function newRClassProxy<T, R>(
   chan: ChannelMain,
   shelter: ShelterID,
-  objType: RType | RCtor
+  objType: RType | RCtor,
+  owner?: ProxyOwner
 ) {
   return new Proxy(RWorker.RObject, {
-    construct: (_, args: WebRData[]) => newRObject(chan, objType, shelter, ...args),
+    construct: (_, args: WebRData[]) => newRObject(chan, objType, shelter, owner, ...args),
     get: (_, prop: string | number | symbol) => {
-      return targetMethod(chan, prop.toString());
+      return targetMethod(chan, prop.toString(), objType);
     },
   }) as unknown as ProxyConstructor<T, R>;
 }
@@ -27,6 +27,10 @@ export type RList = RProxy<RWorker.RList>;
 export type RDataFrame = RProxy<RWorker.RDataFrame>;
 export type RRaw = RProxy<RWorker.RRaw>;
 export type RCall = RProxy<RWorker.RCall>;
+export type RS4 = RProxy<RWorker.RS4>;
+// Constructing an RArray or RMatrix returns an atomic vector with a `dim` attribute
+export type RArray = RLogical | RInteger | RDouble | RComplex | RCharacter | RRaw;
+export type RMatrix = RArray;
 // RFunction proxies are callable
 export type RFunction = RProxy<RWorker.RFunction> & ((...args: unknown[]) => Promise<unknown>);
 
@@ -154,6 +158,15 @@ export function isRCall(value: any): value is RCall {
   return isRObject(value) && value._payload.obj.type === 'call';
 }
 
+/**
+ * Test for an RS4 instance
+ * @param {any} value The object to test.
+ * @returns {boolean} True if the object is an instance of an RS4.
+ */
+export function isRS4(value: any): value is RS4 {
+  return isRObject(value) && value._payload.obj.type === 's4';
+}
+
 /**
  * Test for an RFunction instance
  * @param {any} value The object to test.
@@ -5,12 +5,16 @@
 import { Module } from './emscripten';
 import { Complex, isComplex, NamedEntries, NamedObject, WebRDataRaw, WebRDataScalar } from './robj';
 import { WebRData, WebRDataAtomic, RPtr, RType, RTypeMap, RTypeNumber, RCtor } from './robj';
+import { NestedArray, RArrayDimnames, WebRDataJsClass, WebRDataJsS4 } from './robj';
 import { isWebRDataJs, WebRDataJs, WebRDataJsAtomic, WebRDataJsNode } from './robj';
 import { WebRDataJsNull, WebRDataJsString, WebRDataJsSymbol } from './robj';
 import { isSimpleObject } from './utils';
 import { envPoke, parseEvalBare, protect, protectInc, unprotect } from './utils-r';
 import { protectWithIndex, reprotect, unprotectIndex, safeEval } from './utils-r';
 import { EvalROptions, ShelterID, isShelterID } from './webr-chan';
+import { ArrowData, ArrowField, ArrowTable, ArrowType, arrowBitmap, arrowGetInt64 } from './arrow';
+import { arrowIsValid, arrowSetInt64, arrowUtf8, arrowUtf8Values, arrowView } from './arrow';
+import { readArrowStream, writeArrowStream } from './arrow';
 
 export type RHandle = RObject | RPtr;
 
@@ -85,7 +89,27 @@ export function purge(shelter: ShelterID) {
 }
 
 export interface ToJsOptions {
-  depth: number;
+  /**
+   * The depth to which nested R objects are converted. Objects nested more
+   * deeply are returned as R object references. A depth of `0` converts the
+   * entire object. Default: `0`.
+   */
+  depth?: number;
+
+  /**
+   * Convert factors, dates, date-times and time differences according to
+   * their class, rather than as the underlying integer or double vectors.
+   * See {@link WebRDataJsClass}. Default: `false`.
+   */
+  classes?: boolean;
+
+  /**
+   * When converting with `classes` enabled, the representation used for
+   * `Date` and `POSIXct` values: JavaScript `Date` objects, or ISO 8601
+   * strings. Date-time strings include the UTC offset in the time zone of the
+   * `POSIXct` vector. Default: `'Date'`.
+   */
+  dates?: 'Date' | 'string';
 }
 
 export type Nullable<T> = T | RNull;
@@ -93,6 +117,9 @@ export type Nullable<T> = T | RNull;
 function newObjectFromData(obj: WebRData): RObject {
   // Conversion of WebRDataJs type JS objects
   if (isWebRDataJs(obj)) {
+    if (obj.type !== 's4' && 'class' in obj) {
+      return newObjectFromClassJs(obj);
+    }
     return new (getRWorkerClass(obj.type))(obj);
   }
 
@@ -123,6 +150,11 @@ function newObjectFromData(obj: WebRData): RObject {
     return new RComplex(obj);
   }
 
+  // JS dates are converted to `POSIXct` date-times
+  if (obj instanceof Date) {
+    return newObjectFromDates([obj]);
+  }
+
   // Conversion of composite JS objects
   if (ArrayBuffer.isView(obj) || obj instanceof ArrayBuffer) {
     return new RRaw(obj);
@@ -141,6 +173,10 @@ function newObjectFromData(obj: WebRData): RObject {
 function newObjectFromArray(arr: WebRData[]): RObject {
   const prot = { n: 0 };
 
+  if (arr.some((v) => v instanceof Date) && arr.every((v) => v instanceof Date || v === null)) {
+    return newObjectFromDates(arr as (Date | null)[]);
+  }
+
   // Is this a D3 formatted data frame?
   const hasObjects = arr.every((v) => v && typeof v === 'object' && !isRObject(v) && !isComplex(v));
   if (hasObjects) {
@@ -150,7 +186,7 @@ function newObjectFromArray(arr: WebRData[]): RObject {
         Object.keys(_arr[0]).filter((k) => !Object.keys(a).includes(k)).length === 0;
     });
     const isAtomic = _arr.every((a) => Object.values(a).every((v) => {
-      return isAtomicType(v) || isRVectorAtomic(v);
+      return isAtomicType(v) || isRVectorAtomic(v) || v instanceof Date;
     }));
     if (isConsistent && isAtomic) {
       return RDataFrame.fromD3(_arr);
@@ -179,6 +215,62 @@ function newObjectFromArray(arr: WebRData[]): RObject {
   }
 }
 
+function newObjectFromDates(dates: (Date | null)[]): RObject {
+  const prot = { n: 0 };
+
+  try {
+    const obj = new RDouble(dates.map((d) => {
+      const time = d === null ? NaN : d.getTime();
+      return Number.isNaN(time) ? null : time / 1000;
+    }));
+    protectInc(obj, prot);
+    setAttrib(obj, 'class', new RCharacter(['POSIXct', 'POSIXt']));
+    return obj;
+  } finally {
+    unprotect(prot.n);
+  }
+}
+
+// Reverse the conversion made by `toJs()` with the `classes` option enabled
+function newObjectFromClassJs(obj: WebRDataJsClass): RObject {
+  const prot = { n: 0 };
+
+  try {
+    let out: RObject;
+    if (obj.class === 'factor') {
+      out = parseEvalBare('factor(x, levels = levels, ordered = ordered)', {
+        x: new RCharacter(obj.values),
+        levels: new RCharacter(obj.levels),
+        ordered: obj.ordered,
+      });
+      protectInc(out, prot);
+    } else if (obj.class === 'difftime') {
+      out = new RDouble(obj.values);
+      protectInc(out, prot);
+      setAttrib(out, 'class', new RCharacter('difftime'));
+      setAttrib(out, 'units', new RCharacter(obj.units));
+    } else {
+      const scale = obj.class === 'Date' ? 86400000 : 1000;
+      out = new RDouble(obj.values.map((v) => {
+        const time = v === null ? NaN : new Date(v).getTime();
+        return Number.isNaN(time) ? null : time / scale;
+      }));
+      protectInc(out, prot);
+      if (obj.class === 'Date') {
+        setAttrib(out, 'class', new RCharacter('Date'));
+      } else {
+        setAttrib(out, 'class', new RCharacter(['POSIXct', 'POSIXt']));
+        if (obj.tz) {
+          setAttrib(out, 'tzone', new RCharacter(obj.tz));
+        }
+      }
+    }
+    return out.setNames(obj.names);
+  } finally {
+    unprotect(prot.n);
+  }
+}
+
 export class RObjectBase {
   ptr: RPtr;
   constructor(ptr: RPtr) {
@@ -699,6 +791,42 @@ export class RList extends RObject {
     }, []);
   }
 
+  /**
+   * Encode the data frame in the Apache Arrow IPC stream format.
+   *
+   * Logical, integer, double and character columns are encoded as Arrow
+   * boolean, 32-bit integer, 64-bit floating point and UTF-8 string columns.
+   * Factors are dictionary encoded, `Date` columns are encoded as 32-bit
+   * dates, and `POSIXct` columns are encoded as millisecond timestamps.
+   * @returns {Uint8Array} The encoded data frame.
+   */
+  toArrow(): Uint8Array {
+    if (!this.isDataFrame()) {
+      throw new Error(
+        "Can't convert R list object to Arrow format. Object must be of class 'data.frame'."
+      );
+    }
+    const prot = { n: 0 };
+
+    try {
+      const nrow = parseEvalBare('nrow(x)', { x: this }) as RInteger;
+      protectInc(nrow, prot);
+
+      const table: ArrowTable = { fields: [], dictionaries: new Map(), batches: [] };
+      const names = this.names() ?? [];
+      const columns = [...Array(this.length).keys()].map((i) => {
+        const column = this.get(i + 1);
+        protectInc(column, prot);
+        return toArrowColumn(names[i] ?? '', column, table);
+      });
+      table.batches.push({ length: nrow.toNumber(), columns });
+
+      return writeArrowStream(table);
+    } finally {
+      unprotect(prot.n);
+    }
+  }
+
   entries(options: { depth: number } = { depth: -1 }): NamedEntries<WebRData> {
     const obj = this.toJs(options);
 
@@ -710,7 +838,7 @@ export class RList extends RObject {
     return obj.values.map((v, i) => [obj.names ? obj.names[i] : null, v]);
   }
 
-  toJs(options: { depth: number } = { depth: 0 }, depth = 1): WebRDataJsNode {
+  toJs(options: ToJsOptions = { depth: 0 }, depth = 1): WebRDataJsNode {
     return {
       type: 'list',
       names: this.names(),
@@ -752,7 +880,7 @@ export class RDataFrame extends RList {
         const _values = values as WebRData[][];
         const isConsistentLength = _values.every((a) => a.length === _values[0].length);
         const isAtomic = _values.every((a) => {
-          return isAtomicType(a[0]) || isRVectorAtomic(a[0]);
+          return isAtomicType(a[0]) || isRVectorAtomic(a[0]) || a[0] instanceof Date;
         });
 
         if (isConsistentLength && isAtomic) {
@@ -782,6 +910,279 @@ export class RDataFrame extends RList {
       Object.fromEntries(Object.keys(arr[0]).map((k) => [k, arr.map((v) => v[k])]))
     );
   }
+
+  /**
+   * Create a data frame from a table encoded in the Apache Arrow IPC stream
+   * or file format.
+   *
+   * Arrow boolean, integer, floating point and UTF-8 string columns are
+   * converted to logical, integer or double, and character columns. 64-bit
+   * and unsigned 32-bit integers are converted to double. Dictionary encoded
+   * string columns are converted to factors, and date and timestamp columns
+   * to `Date` and `POSIXct` columns.
+   * @param {Uint8Array | ArrayBuffer} data The encoded table.
+   * @returns {RDataFrame} The new data frame.
+   */
+  static fromArrow(data: Uint8Array | ArrayBuffer): RDataFrame {
+    if (!(data instanceof Uint8Array || data instanceof ArrayBuffer)) {
+      throw new Error('Arrow data must be given as a `Uint8Array` or `ArrayBuffer`.');
+    }
+    const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+    const table = readArrowStream(bytes);
+    const length = table.batches.reduce((n, batch) => n + batch.length, 0);
+    const prot = { n: 0 };
+
+    try {
+      const ptr = Module._Rf_allocVector(RTypeMap.list, table.fields.length);
+      protectInc(ptr, prot);
+
+      table.fields.forEach((field, i) => {
+        const columns = table.batches.map((batch) => batch.columns[i]);
+        const dictionary = field.dictionary && table.dictionaries.get(field.dictionary.id);
+        Module._SET_VECTOR_ELT(ptr, i, fromArrowColumn(field, columns, dictionary, length).ptr);
+      });
+
+      const out = RObject.wrap(ptr).setNames(table.fields.map((field) => field.name));
+      setAttrib(out, 'row.names', new RInteger(length > 0 ? [null, -length] : []));
+      setAttrib(out, 'class', new RCharacter('data.frame'));
+      return new RDataFrame(out);
+    } finally {
+      unprotect(prot.n);
+    }
+  }
+}
+
+// `setAttrib()` protects its inputs. Symbols are never garbage collected, so
+// the value may be allocated after the symbol has been installed.
+function setAttrib(obj: RObject, name: string, value: RObject) {
+  Module._Rf_setAttrib(obj.ptr, new RSymbol(name).ptr, value.ptr);
+}
+
+// Convert a column of a data frame to Arrow, adding its field to the table
+function toArrowColumn(name: string, column: RObject, table: ArrowTable): ArrowData {
+  const field: ArrowField = { name, type: { id: 'null' } };
+  table.fields.push(field);
+
+  const fixed = (length: number, valid: (i: number) => boolean, values: Uint8Array) => {
+    const validity = arrowBitmap(length, valid);
+    const nullCount = length - [...Array(length).keys()].filter(valid).length;
+    return { length, nullCount, buffers: [nullCount > 0 ? validity : new Uint8Array(), values] };
+  };
+  const attr = (attrName: string) => column.attrs().get(attrName);
+  const classes = column.class().toArray();
+  const naInteger = Module.getValue(Module._R_NaInt, 'i32');
+
+  if (column instanceof RLogical) {
+    const values = column.toTypedArray();
+    field.type = { id: 'bool' };
+    return fixed(
+      values.length,
+      (i) => values[i] !== naInteger,
+      arrowBitmap(values.length, (i) => values[i] === 1)
+    );
+  }
+
+  if (column instanceof RInteger) {
+    const values = column.toTypedArray();
+    const valid = (i: number) => values[i] !== naInteger;
+    if (classes.includes('factor')) {
+      const id = table.dictionaries.size;
+      field.type = { id: 'utf8' };
+      field.dictionary = {
+        id,
+        indexType: { bitWidth: 32, signed: true },
+        ordered: classes.includes('ordered'),
+      };
+      table.dictionaries.set(id, arrowUtf8((attr('levels') as RCharacter).toArray()));
+      const indices = values.map((v, i) => (valid(i) ? v - 1 : 0));
+      return fixed(values.length, valid, new Uint8Array(indices.buffer));
+    }
+    field.type = { id: 'int', bitWidth: 32, signed: true };
+    return fixed(values.length, valid, new Uint8Array(values.buffer));
+  }
+
+  if (column instanceof RDouble) {
+    const values = column.toTypedArray();
+    const valid = (i: number) => Number.isFinite(values[i]);
+
+    if (classes.includes('Date')) {
+      field.type = { id: 'date', unit: 'day' };
+      const days = Int32Array.from(values, (v) => (Number.isFinite(v) ? Math.floor(v) : 0));
+      return fixed(values.length, valid, new Uint8Array(days.buffer));
+    }
+
+    if (classes.includes('POSIXct')) {
+      const tzone = attr('tzone');
+      const timezone = tzone instanceof RCharacter ? tzone.toArray()[0] : null;
+      field.type = { id: 'timestamp', unit: 'millisecond', timezone: timezone || null };
+      const view = new DataView(new ArrayBuffer(8 * values.length));
+      values.forEach((v, i) => arrowSetInt64(view, 8 * i, valid(i) ? Math.round(v * 1000) : 0));
+      return fixed(values.length, valid, new Uint8Array(view.buffer));
+    }
+
+    // Distinguish R's `NA`, which becomes null, from other `NaN` values
+    const naDouble = Module.getValue(Module._R_NaReal, 'double');
+    const naLow = new Uint32Array(new Float64Array([naDouble]).buffer)[0];
+    const words = new Uint32Array(values.buffer);
+    field.type = { id: 'float', precision: 'double' };
+    return fixed(
+      values.length,
+      (i) => !(Number.isNaN(values[i]) && words[2 * i] === naLow),
+      new Uint8Array(values.buffer)
+    );
+  }
+
+  if (column instanceof RCharacter) {
+    field.type = { id: 'utf8' };
+    return arrowUtf8(column.toArray());
+  }
+
+  throw new Error(`Can't convert column \`${name}\` of type "${column.type()}" to Arrow.`);
+}
+
+// Read the values of a fixed width Arrow column as JS numbers
+function arrowNumeric(data: ArrowData, type: ArrowType): (i: number) => number {
+  const buffer = data.buffers[1];
+  let bitWidth = 64;
+  let signed = true;
+
+  switch (type.id) {
+    case 'bool':
+      return (i) => (buffer[i >> 3] >> (i & 7)) & 1;
+    case 'float':
+      if (type.precision === 'single') {
+        const values = arrowView(buffer, Float32Array);
+        return (i) => values[i];
+      }
+      if (type.precision === 'double') {
+        const values = arrowView(buffer, Float64Array);
+        return (i) => values[i];
+      }
+      throw new Error("Can't convert Arrow half precision floating point values.");
+    case 'int':
+      ({ bitWidth, signed } = type);
+      break;
+    case 'date':
+      bitWidth = type.unit === 'day' ? 32 : 64;
+      break;
+  }
+
+  switch (bitWidth) {
+    case 8: {
+      const values = signed ? arrowView(buffer, Int8Array) : arrowView(buffer, Uint8Array);
+      return (i) => values[i];
+    }
+    case 16: {
+      const values = signed ? arrowView(buffer, Int16Array) : arrowView(buffer, Uint16Array);
+      return (i) => values[i];
+    }
+    case 32: {
+      const values = signed ? arrowView(buffer, Int32Array) : arrowView(buffer, Uint32Array);
+      return (i) => values[i];
+    }
+    default: {
+      const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+      return (i) => arrowGetInt64(view, 8 * i, signed);
+    }
+  }
+}
+
+// Convert the batches of an Arrow column to an R vector
+function fromArrowColumn(
+  field: ArrowField,
+  columns: ArrowData[],
+  dictionary: ArrowData | undefined,
+  length: number
+): RObject {
+  const type: ArrowType = field.dictionary ? { id: 'int', ...field.dictionary.indexType } : field.type;
+  let kind: RType;
+  let scale = 1;
+  let shift = 0;
+
+  switch (type.id) {
+    case 'null':
+    case 'bool':
+      kind = 'logical';
+      break;
+    case 'int':
+      kind = type.bitWidth < 32 || (type.bitWidth === 32 && type.signed) ? 'integer' : 'double';
+      break;
+    case 'float':
+      kind = 'double';
+      break;
+    case 'utf8':
+      kind = 'character';
+      break;
+    case 'date':
+      kind = 'double';
+      scale = type.unit === 'day' ? 1 : 86400000;
+      break;
+    case 'timestamp':
+      kind = 'double';
+      scale = 1000 ** ['second', 'millisecond', 'microsecond', 'nanosecond'].indexOf(type.unit);
+      break;
+    default:
+      throw new Error(`Can't convert Arrow column \`${field.name}\` of unsupported type.`);
+  }
+  if (field.dictionary) {
+    if (field.type.id !== 'utf8' || !dictionary) {
+      throw new Error(`Can't convert dictionary encoded Arrow column \`${field.name}\`.`);
+    }
+    kind = 'integer';
+    shift = 1;
+  }
+
+  const prot = { n: 0 };
+
+  try {
+    const ptr = Module._Rf_allocVector(RTypeMap[kind], length);
+    protectInc(ptr, prot);
+
+    const naInteger = Module.getValue(Module._R_NaInt, 'i32');
+    const naDouble = Module.getValue(Module._R_NaReal, 'double');
+    let offset = 0;
+
+    columns.forEach((data) => {
+      const validity = data.buffers[0] ?? new Uint8Array();
+      const valid = (i: number) => type.id !== 'null' && arrowIsValid(validity, i);
+
+      if (kind === 'character') {
+        arrowUtf8Values(data).forEach((v, i) => {
+          const elt = v === null ? objs.naString : new RString(v);
+          Module._SET_STRING_ELT(ptr, offset + i, elt.ptr);
+        });
+      } else if (kind === 'double') {
+        const value = arrowNumeric(data, type);
+        const start = Module._REAL(ptr) / 8 + offset;
+        for (let i = 0; i < data.length; i++) {
+          Module.HEAPF64[start + i] = valid(i) ? value(i) / scale : naDouble;
+        }
+      } else {
+        const value = type.id === 'null' ? () => 0 : arrowNumeric(data, type);
+        const start = (kind === 'logical' ? Module._LOGICAL(ptr) : Module._INTEGER(ptr)) / 4;
+        for (let i = 0; i < data.length; i++) {
+          Module.HEAP32[start + i] = valid(i) ? value(i) + shift : naInteger;
+        }
+      }
+      offset += data.length;
+    });
+
+    const out = RObject.wrap(ptr);
+    if (field.dictionary) {
+      setAttrib(out, 'levels', new RCharacter(arrowUtf8Values(dictionary!)));
+      setAttrib(out, 'class', new RCharacter(
+        field.dictionary.ordered ? ['ordered', 'factor'] : ['factor']
+      ));
+    } else if (type.id === 'date') {
+      setAttrib(out, 'class', new RCharacter('Date'));
+    } else if (type.id === 'timestamp') {
+      setAttrib(out, 'class', new RCharacter(['POSIXct', 'POSIXt']));
+      setAttrib(out, 'tzone', new RCharacter(type.timezone ?? ''));
+    }
+    return out;
+  } finally {
+    unprotect(prot.n);
+  }
 }
 
 export class RFunction extends RObject {
@@ -914,6 +1315,52 @@ export class REnvironment extends RObject {
     return RObject.wrap(Module._FRAME(this.ptr));
   }
 
+  /**
+   * @returns {boolean} True if the environment is an R6 object.
+   */
+  isR6(): boolean {
+    return (parseEvalBare('inherits(x, "R6")', { x: this }) as RLogical).toBoolean();
+  }
+
+  /**
+   * List the fields of an R6 object, including active bindings, but not
+   * methods.
+   * @param {object} [options] Options for listing the fields.
+   * @param {boolean} [options.private] List private fields, rather than public
+   * fields. Default: `false`.
+   * @returns {string[]} The names of the fields.
+   */
+  r6Fields(options: { private?: boolean } = {}): string[] {
+    assertR6(this);
+    const fields = parseEvalBare(`{
+      env <- if (private) x$.__enclos_env__$private else x
+      if (is.null(env)) character(0) else Filter(function(name) {
+        bindingIsActive(name, env) || !is.function(get(name, envir = env))
+      }, ls(env, sorted = FALSE))
+    }`, { x: this, private: !!options.private }) as RCharacter;
+    return fields.toArray() as string[];
+  }
+
+  /**
+   * Get the value of a field of an R6 object. Active bindings are evaluated.
+   * @param {string} name The name of the field.
+   * @param {object} [options] Options for getting the field.
+   * @param {boolean} [options.private] Get a private field, rather than a
+   * public field. Default: `false`.
+   * @returns {RObject} The value of the field.
+   */
+  r6Field(name: string, options: { private?: boolean } = {}): RObject {
+    if (!this.r6Fields(options).includes(name)) {
+      throw new Error(
+        `Can't find ${options.private ? 'private' : 'public'} field \`${name}\` in R6 object.`
+      );
+    }
+    return parseEvalBare(`{
+      env <- if (private) x$.__enclos_env__$private else x
+      get(name, envir = env)
+    }`, { x: this, name, private: !!options.private });
+  }
+
   subset(prop: number | string): RObject {
     if (typeof prop === 'number') {
       throw new Error('Object of type environment is not subsettable');
@@ -931,7 +1378,7 @@ export class REnvironment extends RObject {
     );
   }
 
-  toJs(options: { depth: number } = { depth: 0 }, depth = 1): WebRDataJsNode {
+  toJs(options: ToJsOptions = { depth: 0 }, depth = 1): WebRDataJsNode {
     const names = this.names();
     const values = [...Array(names.length).keys()].map((i) => {
       if (options.depth && depth >= options.depth) {
@@ -949,6 +1396,122 @@ export class REnvironment extends RObject {
   }
 }
 
+function assertR6(env: REnvironment) {
+  if (!env.isR6()) {
+    throw new Error("Can't read R6 object fields. Supplied environment is not an R6 object.");
+  }
+}
+
+export class RS4 extends RObject {
+  constructor(val: WebRData) {
+    if (val instanceof RObjectBase) {
+      assertRType(val, 's4');
+      super(val);
+      return this;
+    }
+
+    if (!isWebRDataJs(val) || val.type !== 's4') {
+      throw new Error("Can't construct `RS4`. Supplied JS object is not an S4 object representation.");
+    }
+
+    const prot = { n: 0 };
+
+    try {
+      const cls = new RCharacter(val.class);
+      protectInc(cls, prot);
+      if (val.package) {
+        setAttrib(cls, 'package', new RCharacter(val.package));
+      }
+
+      const slots = new RList({ type: 'list', names: val.names, values: val.values });
+      protectInc(slots, prot);
+
+      const obj = parseEvalBare('do.call(methods::new, c(list(Class = cls), slots))', {
+        cls,
+        slots,
+      });
+      assertRType(obj, 's4');
+      super(obj);
+    } finally {
+      unprotect(prot.n);
+    }
+  }
+
+  slotNames(): string[] {
+    const names = parseEvalBare('methods::slotNames(x)', { x: this }) as RCharacter;
+    return names.toArray() as string[];
+  }
+
+  slot(name: string): RObject {
+    return parseEvalBare('methods::slot(x, name)', { x: this, name });
+  }
+
+  /**
+   * Set the value of a slot, checking that the value is valid for the slot's
+   * class. As with other R objects, the S4 object is not modified in place.
+   * @param {string} name The name of the slot.
+   * @param {WebRData} value The new value of the slot.
+   * @returns {RS4} A copy of the S4 object, with the slot set to the value.
+   */
+  setSlot(name: string, value: WebRData): RS4 {
+    const prot = { n: 0 };
+
+    try {
+      const valueObj = new RObject(value);
+      protectInc(valueObj, prot);
+
+      return parseEvalBare('methods::`slot<-`(x, name, check = TRUE, value)', {
+        x: this,
+        name,
+        value: valueObj,
+      }) as RS4;
+    } finally {
+      unprotect(prot.n);
+    }
+  }
+
+  /**
+   * @returns {boolean} True if the object is a class representation, as
+   * returned by `methods::getClass()`, for a virtual class, or if the class
+   * of the object is virtual.
+   */
+  isVirtualClass(): boolean {
+    return (parseEvalBare(
+      'methods::isVirtualClass(if (methods::is(x, "classRepresentation")) x else class(x))',
+      { x: this }
+    ) as RLogical).toBoolean();
+  }
+
+  toJs(options: ToJsOptions = { depth: 0 }, depth = 1): WebRDataJsS4 {
+    const prot = { n: 0 };
+
+    try {
+      const cls = this.class();
+      protectInc(cls, prot);
+      const pkg = cls.attrs().get('package');
+
+      const names = this.slotNames();
+      const values = names.map((name) => {
+        if (options.depth && depth >= options.depth) {
+          return this.slot(name);
+        } else {
+          return this.slot(name).toJs(options, depth + 1);
+        }
+      });
+
+      return {
+        type: 's4',
+        class: cls.toArray()[0] as string,
+        package: pkg instanceof RCharacter ? pkg.toString() : null,
+        names,
+        values,
+      };
+    } finally {
+      unprotect(prot.n);
+    }
+  }
+}
+
 type TypedArray =
   | Int8Array
   | Uint8Array
@@ -1054,7 +1617,86 @@ abstract class RVectorAtomic<T extends atomicType> extends RObject {
     return values.map((v, i) => [names ? names[i] : null, v]);
   }
 
-  toJs(): WebRDataJsAtomic<T> {
+  /**
+   * @returns {number[] | null} The dimensions of the vector, as given by its
+   * `dim` attribute, or `null` if the vector is not an array.
+   */
+  dim(): number[] | null {
+    const dim = this.attrs().get('dim');
+    return dim.isNull() ? null : (dim as RInteger).toArray() as number[];
+  }
+
+  /**
+   * @returns {RArrayDimnames | null} The names of each dimension of the
+   * vector, as given by its `dimnames` attribute, or `null` if the vector has
+   * no dimension names.
+   */
+  dimnames(): RArrayDimnames | null {
+    const dimnames = this.attrs().get('dimnames');
+    if (dimnames.isNull()) {
+      return null;
+    }
+    const list = dimnames as RList;
+    return [...Array(list.length).keys()].map((i) => {
+      const names = list.get(i + 1);
+      return names.isNull() ? null : (names as RCharacter).toArray();
+    });
+  }
+
+  /**
+   * Extract a row of a matrix, dropping the row dimension.
+   * @param {number | string} i The row index, counting from 1, or row name.
+   * @returns {this} The values in the row.
+   */
+  row(i: number | string): this {
+    assertMatrix(this, 'row');
+    return parseEvalBare('x[i, ]', { x: this, i }) as this;
+  }
+
+  /**
+   * Extract a column of a matrix, dropping the column dimension.
+   * @param {number | string} j The column index, counting from 1, or column
+   * name.
+   * @returns {this} The values in the column.
+   */
+  col(j: number | string): this {
+    assertMatrix(this, 'col');
+    return parseEvalBare('x[, j]', { x: this, j }) as this;
+  }
+
+  /**
+   * Convert the vector to nested JavaScript arrays following its dimensions,
+   * with the first dimension outermost. A matrix is converted to an array of
+   * rows. A vector without a `dim` attribute is converted to a flat array.
+   * @returns {NestedArray} The nested arrays of values.
+   */
+  toNestedArray(): NestedArray<T | null> {
+    const values = this.toArray();
+    const dim = this.dim() ?? [values.length];
+    const strides = dim.map((_, k) => dim.slice(0, k).reduce((a, b) => a * b, 1));
+
+    const nest = (k: number, offset: number): NestedArray<T | null> => {
+      return [...Array(dim[k]).keys()].map((i) => {
+        const idx = offset + i * strides[k];
+        return k === dim.length - 1 ? values[idx] : nest(k + 1, idx);
+      });
+    };
+    return dim.length > 0 ? nest(0, 0) : [];
+  }
+
+  /**
+   * Convert the vector to a JavaScript object. Vectors are converted
+   * according to their class only when `options.classes` is `true`.
+   * @param {ToJsOptions} [options] Options for the conversion.
+   * @returns {WebRDataJsAtomic | WebRDataJsClass} The converted vector.
+   */
+  toJs(options?: ToJsOptions & { classes?: false }): WebRDataJsAtomic<T>;
+  toJs(options?: ToJsOptions): WebRDataJsAtomic<T> | WebRDataJsClass;
+  toJs(options: ToJsOptions = { depth: 0 }): WebRDataJsAtomic<T> | WebRDataJsClass {
+    const classJs = options.classes ? classToJs(this, options) : undefined;
+    if (classJs) {
+      return classJs;
+    }
     return {
       type: this.type() as 'logical' | 'integer' | 'double' | 'complex' | 'character' | 'raw',
       names: this.names(),
@@ -1063,6 +1705,108 @@ abstract class RVectorAtomic<T extends atomicType> extends RObject {
   }
 }
 
+// Convert an atomic vector according to its class, if supported
+function classToJs(
+  x: RVectorAtomic<atomicType>,
+  options: ToJsOptions
+): WebRDataJsClass | undefined {
+  const type = x.type();
+  if (type !== 'integer' && type !== 'double') {
+    return undefined;
+  }
+
+  const prot = { n: 0 };
+
+  try {
+    // Attribute values are protected by the vector they are attached to
+    const attrs = x.attrs();
+    const classes = attrs.get('class') as RNull | RCharacter;
+    if (classes.isNull()) {
+      return undefined;
+    }
+
+    const cls = classes.toArray();
+    const names = x.names();
+    const values = x.toArray() as (number | null)[];
+    const finite = (v: number | null): v is number => v !== null && Number.isFinite(v);
+
+    if (cls.includes('factor')) {
+      const levels = (attrs.get('levels') as RCharacter).toArray() as string[];
+      return {
+        type: 'integer',
+        class: 'factor',
+        names,
+        values: values.map((v) => (v === null ? null : levels[v - 1] ?? null)),
+        levels,
+        ordered: cls.includes('ordered'),
+      };
+    }
+
+    if (cls.includes('Date')) {
+      return {
+        type,
+        class: 'Date',
+        names,
+        values: values.map((v) => {
+          if (!finite(v)) {
+            return null;
+          }
+          const date = new Date(Math.floor(v) * 86400000);
+          return options.dates === 'string' ? date.toISOString().slice(0, 10) : date;
+        }),
+        tz: null,
+      };
+    }
+
+    if (cls.includes('POSIXct')) {
+      const tzone = attrs.get('tzone');
+      const tz = (tzone instanceof RCharacter && tzone.toArray()[0]) || null;
+      if (options.dates !== 'string') {
+        return {
+          type,
+          class: 'POSIXct',
+          names,
+          values: values.map((v) => (finite(v) ? new Date(v * 1000) : null)),
+          tz,
+        };
+      }
+
+      // Format in R, giving the UTC offset in the vector's own time zone
+      const formatted = parseEvalBare(
+        'format(x, "%Y-%m-%dT%H:%M:%OS3%z")',
+        { x }
+      ) as RCharacter;
+      protectInc(formatted, prot);
+      return {
+        type,
+        class: 'POSIXct',
+        names,
+        values: formatted.toArray().map((str, i) => {
+          if (!finite(values[i]) || str === null) {
+            return null;
+          }
+          return str.replace(/([+-]\d\d)(\d\d)$/, '$1:$2');
+        }),
+        tz,
+      };
+    }
+
+    if (cls.includes('difftime')) {
+      return {
+        type,
+        class: 'difftime',
+        names,
+        values,
+        units: (attrs.get('units') as RCharacter).toString(),
+      };
+    }
+
+    return undefined;
+  } finally {
+    unprotect(prot.n);
+  }
+}
+
 export class RLogical extends RVectorAtomic<boolean> {
   constructor(val: WebRDataAtomic<boolean>) {
     super(val, 'logical', RLogical.#newSetter);
@@ -1319,6 +2063,204 @@ export class RRaw extends RVectorAtomic<number> {
   }
 }
 
+/**
+ * R arrays, atomic vectors with a `dim` attribute.
+ *
+ * Constructing an `RArray` returns an atomic vector of the corresponding R
+ * type, such as an {@link RDouble} or {@link RInteger}. Methods for working
+ * with the dimensions of an array, such as `dim()` and `toNestedArray()`, are
+ * available on all atomic vectors.
+ */
+export class RArray extends RObject {
+  /**
+   * @param {WebRData} val The array values. Either nested JavaScript arrays,
+   * with the first dimension outermost, or a flat array, typed array or R
+   * atomic vector of values in column-major order.
+   * @param {number[]} [dim] The dimensions of the array, required when the
+   * values are not given as nested arrays.
+   * @param {RArrayDimnames} [dimnames] The names of each dimension.
+   */
+  constructor(val: WebRData, dim?: number[], dimnames?: RArrayDimnames | null) {
+    if (val instanceof RObjectBase) {
+      super(val);
+      assertArray(this, 'RArray');
+      return RObject.wrap(this.ptr);
+    }
+    return newArrayFromData(val, 'RArray', dim, dimnames);
+  }
+}
+
+/**
+ * R matrices, atomic vectors with a `dim` attribute of length 2.
+ *
+ * Nested JavaScript arrays are taken to be an array of rows. Constructing an
+ * `RMatrix` returns an atomic vector of the corresponding R type.
+ */
+export class RMatrix extends RArray {
+  /**
+   * @param {WebRData} val The matrix values. Either an array of rows, or a
+   * flat array, typed array or R atomic vector of values in column-major
+   * order.
+   * @param {number[]} [dim] The number of rows and columns, required when the
+   * values are not given as an array of rows.
+   * @param {RArrayDimnames} [dimnames] The row and column names.
+   */
+  constructor(val: WebRData, dim?: number[], dimnames?: RArrayDimnames | null) {
+    if (val instanceof RObjectBase) {
+      super(val);
+      assertMatrix(RObject.wrap(this.ptr) as RVectorAtomic<atomicType>, 'RMatrix');
+      return RObject.wrap(this.ptr);
+    }
+    return newArrayFromData(val, 'RMatrix', dim, dimnames);
+  }
+}
+
+function isArrayValues(value: unknown): value is ArrayLike<unknown> & Iterable<unknown> {
+  return Array.isArray(value) || (ArrayBuffer.isView(value) && !(value instanceof DataView));
+}
+
+function assertArray(x: RObject, name: string) {
+  if (!isArrayType(x.type()) || (x as RVectorAtomic<atomicType>).dim() === null) {
+    throw new Error(`Can't construct \`${name}\`. Supplied R object is not an array.`);
+  }
+}
+
+function assertMatrix(x: RVectorAtomic<atomicType>, name: string) {
+  if (!isArrayType(x.type()) || x.dim()?.length !== 2) {
+    throw new Error(`Can't use \`${name}\`. Supplied R object is not a matrix.`);
+  }
+}
+
+function isArrayType(type: RType): boolean {
+  return ['logical', 'integer', 'double', 'complex', 'character', 'raw'].includes(type);
+}
+
+// Typed arrays are converted to the R vector type able to hold their values
+function newObjectFromTypedArray(arr: ArrayBufferView): RObject {
+  if (arr instanceof Uint8Array || arr instanceof Uint8ClampedArray) {
+    return new RRaw(arr);
+  }
+  if (arr instanceof Int8Array || arr instanceof Int16Array ||
+    arr instanceof Uint16Array || arr instanceof Int32Array) {
+    return new RInteger(arr);
+  }
+  if (arr instanceof Float32Array || arr instanceof Float64Array || arr instanceof Uint32Array) {
+    return new RDouble(arr);
+  }
+  throw new Error(`Can't convert typed array of type \`${arr.constructor.name}\` to an R vector.`);
+}
+
+// Flatten nested JS arrays into column-major order, checking that they are
+// rectangular. A flat array has a single dimension.
+function flattenNestedArray(val: ArrayLike<unknown> & Iterable<unknown>, name: string) {
+  const shape: number[] = [];
+  for (let v: unknown = val; isArrayValues(v); v = v[0]) {
+    shape.push(v.length);
+    if (v.length === 0) {
+      break;
+    }
+  }
+
+  // Innermost typed arrays of a common type are kept as a typed array
+  let Leaf: (new (values: unknown[]) => ArrayBufferView) | null | undefined;
+  const rowMajor: unknown[] = [];
+  const walk = (v: unknown, k: number) => {
+    if (k === shape.length) {
+      if (isArrayValues(v)) {
+        throw new Error(`Can't construct \`${name}\`. Nested arrays must be rectangular.`);
+      }
+      rowMajor.push(v);
+      return;
+    }
+    if (!isArrayValues(v) || v.length !== shape[k]) {
+      throw new Error(`Can't construct \`${name}\`. Nested arrays must be rectangular.`);
+    }
+    if (k === shape.length - 1) {
+      const ctor = Array.isArray(v) ? null : v.constructor as typeof Leaf;
+      Leaf = Leaf === undefined || Leaf === ctor ? ctor : null;
+    }
+    for (const x of v) {
+      walk(x, k + 1);
+    }
+  };
+  walk(val, 0);
+
+  const strides = shape.map((_, k) => shape.slice(0, k).reduce((a, b) => a * b, 1));
+  const values: unknown[] = new Array(rowMajor.length);
+  rowMajor.forEach((v, r) => {
+    let idx = 0;
+    for (let k = shape.length - 1; k >= 0; k--) {
+      idx += (r % shape[k]) * strides[k];
+      r = Math.floor(r / shape[k]);
+    }
+    values[idx] = v;
+  });
+  return { shape, values: Leaf ? new Leaf(values) : values };
+}
+
+function newArrayFromData(
+  val: WebRData,
+  name: 'RArray' | 'RMatrix',
+  dim?: number[],
+  dimnames?: RArrayDimnames | null
+): RObject {
+  const prot = { n: 0 };
+
+  try {
+    let data: RObject;
+    if (isRObject(val)) {
+      if (!isArrayType(val.type())) {
+        throw new Error(
+          `Can't construct \`${name}\`. Supplied R object is not an atomic vector.`
+        );
+      }
+      data = val;
+      dim ??= (val as RVectorAtomic<atomicType>).dim() ?? [(val as RVectorAtomic<atomicType>).length];
+    } else if (isArrayValues(val)) {
+      const { shape, values } = flattenNestedArray(val, name);
+      if (dim && shape.length > 1) {
+        throw new Error(
+          `Can't construct \`${name}\`. Dimensions can't be given for nested arrays.`
+        );
+      }
+      dim ??= shape;
+      data = ArrayBuffer.isView(values)
+        ? newObjectFromTypedArray(values)
+        : newObjectFromArray(values as WebRData[]);
+      protectInc(data, prot);
+    } else {
+      throw new Error(`Can't construct \`${name}\`. Values must be given as an array.`);
+    }
+
+    if (!dim.every((d) => Number.isInteger(d) && d >= 0)) {
+      throw new Error(`Can't construct \`${name}\`. Dimensions must be non-negative integers.`);
+    }
+    if (name === 'RMatrix' && dim.length !== 2) {
+      throw new Error("Can't construct `RMatrix`. A matrix must have exactly two dimensions.");
+    }
+    const length = dim.reduce((a, b) => a * b, 1);
+    if ((data as RVectorAtomic<atomicType>).length !== length) {
+      throw new Error(
+        `Can't construct \`${name}\`. Expected ${length} values for dimensions ` +
+        `\`${dim.join(' x ')}\`, got ${(data as RVectorAtomic<atomicType>).length}.`
+      );
+    }
+
+    const dimnamesObj = dimnames
+      ? new RList(dimnames.map((d) => (d ? new RCharacter(d) : new RNull())))
+      : new RNull();
+    protectInc(dimnamesObj, prot);
+
+    return parseEvalBare('array(x, dim, dimnames)', {
+      x: data,
+      dim: new RInteger(dim),
+      dimnames: dimnamesObj,
+    });
+  } finally {
+    unprotect(prot.n);
+  }
+}
+
 /*
  * Convert the various types possible in the type union WebRData into
  * consistently typed arrays of names and values.
@@ -1363,6 +2305,9 @@ export function getRWorkerClass(type: RType | RCtor): typeof RObject {
     raw: RRaw,
     function: RFunction,
     dataframe: RDataFrame,
+    s4: RS4,
+    array: RArray,
+    matrix: RMatrix,
   };
   if (type in typeClasses) {
     return typeClasses[type];
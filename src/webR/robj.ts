@@ -40,7 +40,7 @@ export type RType = keyof typeof RTypeMap;
 export type RTypeNumber = typeof RTypeMap[RType];
 
 /** @internal */
-export type RCtor = 'object' | 'dataframe';
+export type RCtor = 'object' | 'dataframe' | 'array' | 'matrix';
 
 export type Complex = {
   re: number;
@@ -55,6 +55,7 @@ export type WebRDataRaw =
   | null
   | void
   | Complex
+  | Date
   | Error
   | ArrayBuffer
   | ArrayBufferView
@@ -109,7 +110,9 @@ export type WebRDataJs =
   | WebRDataJsString
   | WebRDataJsSymbol
   | WebRDataJsNode
-  | WebRDataJsAtomic<RWorker.atomicType>;
+  | WebRDataJsAtomic<RWorker.atomicType>
+  | WebRDataJsClass
+  | WebRDataJsS4;
 
 export type WebRDataJsNull = {
   type: 'null';
@@ -139,6 +142,64 @@ export type WebRDataJsAtomic<T> = {
   values: (T | null)[];
 };
 
+/**
+ * The JavaScript representation of an R factor, date, date-time or time
+ * difference vector, returned when converting with the `classes` option of
+ * {@link RWorker.ToJsOptions} enabled.
+ *
+ * Factor values are converted to their labels. `Date` and `POSIXct` values
+ * are converted to JavaScript `Date` objects or ISO 8601 strings, depending
+ * on the `dates` option, with the time zone of a `POSIXct` vector given by
+ * `tz`. `difftime` values are converted to numbers in the given `units`.
+ */
+export type WebRDataJsClass =
+  | {
+    type: 'integer';
+    class: 'factor';
+    names: (string | null)[] | null;
+    values: (string | null)[];
+    levels: string[];
+    ordered: boolean;
+  }
+  | {
+    type: 'integer' | 'double';
+    class: 'Date' | 'POSIXct';
+    names: (string | null)[] | null;
+    values: (Date | string | null)[];
+    tz: string | null;
+  }
+  | {
+    type: 'integer' | 'double';
+    class: 'difftime';
+    names: (string | null)[] | null;
+    values: (number | null)[];
+    units: string;
+  };
+
+/**
+ * The JavaScript representation of an R S4 object, giving the object's class,
+ * the package defining the class, and the names and contents of its slots.
+ */
+export type WebRDataJsS4 = {
+  type: 's4';
+  class: string;
+  package: string | null;
+  names: string[];
+  values: (WebRDataRaw | RWorker.RObject | RMain.RObject | WebRDataJs)[];
+};
+
+/**
+ * Nested JavaScript arrays, used when converting R arrays and matrices.
+ * @typeParam T The type of the innermost array elements.
+ */
+export type NestedArray<T> = (T | NestedArray<T>)[];
+
+/**
+ * The names of each dimension of an R array, with `null` for dimensions
+ * without names.
+ */
+export type RArrayDimnames = ((string | null)[] | null)[];
+
 /**
  * Test for a {@link WebRDataJs} instance.
  * @param {any} value The object to test.
@@ -0,0 +1,204 @@
+/**
+ * Internal virtual filesystem utility functions, run on the worker thread.
+ * @module UtilsFS
+ */
+
+import { Module } from './emscripten';
+
+/**
+ * Normalise a VFS path, relative to the current working directory.
+ * @internal
+ */
+export function resolvePath(path: string): string {
+  const parts: string[] = [];
+  const absolute = path.startsWith('/') ? path : `${Module.FS.cwd()}/${path}`;
+  absolute.split('/').forEach((part) => {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  });
+  return `/${parts.join('/')}`;
+}
+
+/**
+ * List the entries of a VFS directory, excluding `.` and `..`.
+ * @internal
+ */
+export function readdirFS(path: string): string[] {
+  return Module.FS.readdir(path).filter((name) => name !== '.' && name !== '..');
+}
+
+/**
+ * Copy a file, symbolic link, or directory on the VFS. Directories are only
+ * copied when `recursive` is `true`, merging with any existing directory at
+ * the destination. Existing files at the destination are overwritten.
+ * @internal
+ */
+export function copyFS(src: string, dst: string, recursive: boolean) {
+  const from = resolvePath(src);
+  const to = resolvePath(dst);
+  const stat = Module.FS.lstat(from);
+
+  if (Module.FS.isLink(stat.mode)) {
+    Module.FS.symlink(Module.FS.readlink(from), to);
+  } else if (Module.FS.isDir(stat.mode)) {
+    if (!recursive) {
+      throw new Error(`Can't copy directory \`${src}\` without the \`recursive\` option.`);
+    }
+    if (to === from || to.startsWith(`${from}/`)) {
+      throw new Error(`Can't copy directory \`${src}\` into itself.`);
+    }
+    if (!Module.FS.analyzePath(to).exists) {
+      Module.FS.mkdir(to, stat.mode);
+    }
+    readdirFS(from).forEach((name) => copyFS(joinPath(from, name), joinPath(to, name), true));
+  } else {
+    Module.FS.writeFile(to, Module.FS.readFile(from));
+    Module.FS.chmod(to, stat.mode);
+  }
+}
+
+/**
+ * Remove a file, symbolic link, or empty directory on the VFS. Directories
+ * and their contents are removed when `recursive` is `true`, unless a
+ * filesystem is mounted at or beneath the directory.
+ * @internal
+ */
+export function removeFS(path: string, recursive: boolean) {
+  const stat = Module.FS.lstat(path);
+  if (!Module.FS.isDir(stat.mode)) {
+    Module.FS.unlink(path);
+    return;
+  }
+  if (recursive) {
+    // Don't descend into other filesystems, such as a host directory mounted
+    // using NODEFS, by comparing each directory's mount with the root's
+    const root = Module.FS.lookupPath(path, { follow_mount: false }).node.mount;
+    const mountpoint = findMountpoint(path, root);
+    if (mountpoint) {
+      throw new Error(`Can't remove \`${path}\`, a filesystem is mounted at \`${mountpoint}\`.`);
+    }
+    removeTree(path);
+  }
+  Module.FS.rmdir(path);
+}
+
+function findMountpoint(dir: string, root: FS.Mount): string | undefined {
+  if (Module.FS.lookupPath(dir, {}).node.mount !== root) {
+    return resolvePath(dir);
+  }
+  for (const name of readdirFS(dir)) {
+    const path = joinPath(dir, name);
+    if (Module.FS.isDir(Module.FS.lstat(path).mode)) {
+      const mountpoint = findMountpoint(path, root);
+      if (mountpoint) {
+        return mountpoint;
+      }
+    }
+  }
+  return undefined;
+}
+
+function removeTree(dir: string) {
+  readdirFS(dir).forEach((name) => {
+    const path = joinPath(dir, name);
+    if (Module.FS.isDir(Module.FS.lstat(path).mode)) {
+      removeTree(path);
+      Module.FS.rmdir(path);
+    } else {
+      Module.FS.unlink(path);
+    }
+  });
+}
+
+/**
+ * Find the paths on the VFS matching a glob pattern, in sorted order.
+ *
+ * Each path component of the pattern may use `*` to match any characters,
+ * `?` to match a single character, and `[...]` or `[!...]` to match a
+ * character class. A `**` component matches any number of directories.
+ * Wildcards do not match names beginning with `.` unless the pattern
+ * component also begins with `.`. Relative patterns are matched from the
+ * current working directory, and give relative paths.
+ * @internal
+ */
+export function globFS(pattern: string): string[] {
+  const absolute = pattern.startsWith('/');
+  const segments = pattern.split('/').filter((s) => s && s !== '.');
+  const results = new Set<string>();
+
+  const walk = (dir: string, parts: string[], idx: number) => {
+    if (idx === segments.length) {
+      if (parts.length > 0 || absolute) {
+        results.add(absolute ? `/${parts.join('/')}` : parts.join('/'));
+      }
+      return;
+    }
+
+    const segment = segments[idx];
+    if (segment === '**') {
+      walk(dir, parts, idx + 1);
+      listDir(dir).forEach((name) => {
+        const path = joinPath(dir, name);
+        // Don't follow symbolic links, avoiding cycles
+        if (!name.startsWith('.') && Module.FS.isDir(Module.FS.lstat(path).mode)) {
+          walk(path, [...parts, name], idx);
+        }
+      });
+      return;
+    }
+
+    if (!/[*?[]/.test(segment)) {
+      const path = joinPath(dir, segment);
+      if (Module.FS.analyzePath(path).exists) {
+        walk(path, [...parts, segment], idx + 1);
+      }
+      return;
+    }
+
+    const re = globToRegExp(segment);
+    listDir(dir).forEach((name) => {
+      if (re.test(name) && (segment.startsWith('.') || !name.startsWith('.'))) {
+        walk(joinPath(dir, name), [...parts, name], idx + 1);
+      }
+    });
+  };
+
+  walk(absolute ? '/' : Module.FS.cwd(), [], 0);
+  return Array.from(results).sort();
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir.endsWith('/') ? `${dir}${name}` : `${dir}/${name}`;
+}
+
+// List a directory while globbing, treating anything else as having no entries
+function listDir(path: string): string[] {
+  try {
+    return Module.FS.isDir(Module.FS.stat(path).mode) ? readdirFS(path) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+function globToRegExp(segment: string): RegExp {
+  let re = '';
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i];
+    if (c === '*') {
+      re += '.*';
+    } else if (c === '?') {
+      re += '.';
+    } else if (c === '[' && segment.indexOf(']', i + 2) > 0) {
+      const close = segment.indexOf(']', i + 2);
+      const cls = segment.slice(i + 1, close).replace(/\\/g, '\\\\');
+      re += cls.startsWith('!') ? `[^${cls.slice(1)}]` : `[${cls}]`;
+      i = close;
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
@@ -0,0 +1,137 @@
+/**
+ * Internal virtual filesystem change notification functionality.
+ * @module Watch
+ */
+
+import { Module } from './emscripten';
+import { resolvePath } from './utils-fs';
+import type { FSWatchEvent } from './webr-main';
+
+type Watcher = { path: string; recursive: boolean };
+
+const watchers = new Map<string, Watcher>();
+
+// Streams that have been written to since they were opened
+const modified = new WeakSet<FS.FSStream>();
+
+let notify: (ids: string[], event: FSWatchEvent) => void = () => { return; };
+
+/**
+ * Start watching a path on the VFS for changes.
+ * @internal
+ */
+export function watchFS(id: string, path: string, recursive: boolean) {
+  watchers.set(id, { path: resolvePath(path), recursive });
+}
+
+/**
+ * Stop watching the VFS with the given watcher.
+ * @internal
+ */
+export function unwatchFS(id: string) {
+  watchers.delete(id);
+}
+
+/**
+ * Hook Emscripten's FS functions so that changes to watched paths are
+ * reported using the given callback, along with the IDs of the watchers
+ * matching each change.
+ *
+ * Emscripten's own `FS.trackingDelegate` is not available in all builds, so
+ * instead the FS functions used by the syscall layer are replaced. Nodes are
+ * created through `FS.mknod()`, including by `FS.open()` and `FS.mkdir()`,
+ * and truncated through `FS.truncate()`. Writes are reported once the
+ * written stream is closed.
+ * @internal
+ */
+export function hookFS(callback: (ids: string[], event: FSWatchEvent) => void) {
+  const FS = Module.FS;
+  const mknod = FS.mknod.bind(FS);
+  const symlink = FS.symlink.bind(FS);
+  const write = FS.write.bind(FS);
+  const close = FS.close.bind(FS);
+  const truncate = FS.truncate.bind(FS);
+  const rename = FS.rename.bind(FS);
+  const unlink = FS.unlink.bind(FS);
+  const rmdir = FS.rmdir.bind(FS);
+  notify = callback;
+
+  FS.mknod = (path, mode, dev) => {
+    const node = mknod(path, mode, dev);
+    emit({ type: 'create', path });
+    return node;
+  };
+
+  FS.symlink = (oldpath, newpath) => {
+    const node = symlink(oldpath, newpath);
+    emit({ type: 'create', path: newpath });
+    return node;
+  };
+
+  FS.write = (stream, buffer, offset, length, position, canOwn) => {
+    const bytes = write(stream, buffer, offset, length, position, canOwn);
+    if (watchers.size > 0) {
+      modified.add(stream);
+    }
+    return bytes;
+  };
+
+  FS.close = (stream) => {
+    close(stream);
+    if (modified.delete(stream)) {
+      emit({ type: 'modify', path: FS.getPath(stream.object) });
+    }
+  };
+
+  FS.truncate = (path: string | FS.FSNode, len: number) => {
+    truncate(path as string, len);
+    emit({ type: 'modify', path: typeof path === 'string' ? path : FS.getPath(path) });
+  };
+
+  FS.rename = (oldpath, newpath) => {
+    rename(oldpath, newpath);
+    emit({ type: 'rename', path: newpath, oldPath: oldpath });
+  };
+
+  FS.unlink = (path) => {
+    unlink(path);
+    emit({ type: 'delete', path });
+  };
+
+  FS.rmdir = (path) => {
+    rmdir(path);
+    emit({ type: 'delete', path });
+  };
+}
+
+function emit(event: FSWatchEvent) {
+  if (watchers.size === 0) {
+    return;
+  }
+
+  event.path = resolvePath(event.path);
+  if (event.oldPath) {
+    event.oldPath = resolvePath(event.oldPath);
+  }
+
+  const ids: string[] = [];
+  watchers.forEach((watcher, id) => {
+    if (isWatched(watcher, event.path) || (event.oldPath && isWatched(watcher, event.oldPath))) {
+      ids.push(id);
+    }
+  });
+  if (ids.length > 0) {
+    notify(ids, event);
+  }
+}
+
+function isWatched(watcher: Watcher, path: string): boolean {
+  if (path === watcher.path) {
+    return true;
+  }
+  const prefix = watcher.path === '/' ? '/' : `${watcher.path}/`;
+  if (!path.startsWith(prefix)) {
+    return false;
+  }
+  return watcher.recursive || !path.slice(prefix.length).includes('/');
+}
@@ -5,8 +5,8 @@ import { Message } from './chan/message';
 import { UUID as ShelterID } from './chan/task-common';
 import { EmPtr } from './emscripten';
 import { WebRPayloadWorker, WebRPayloadPtr } from './payload';
-import { RType, RCtor, WebRData, WebRDataJsAtomic } from './robj';
-import type { FSType, FSMountOptions } from './webr-main';
+import { RType, RCtor, WebRData, WebRDataJs, WebRDataJsAtomic } from './robj';
+import type { FSArchiveFormat, FSType, FSMountOptions, FSWatchEvent } from './webr-main';
 
 export { isUUID as isShelterID, UUID as ShelterID } from './chan/task-common';
 
@@ -21,6 +21,28 @@ export interface CallRObjectMethodMessage extends Message {
   };
 }
 
+/**
+ * A method call in a pipeline of R object method calls. The `target` is the
+ * index of an earlier call in the pipeline, whose result the method is called
+ * on, or `-1` for the R object the pipeline was started from.
+ * @internal
+ */
+export interface PipelineCall {
+  target: number;
+  prop: string;
+  args: WebRPayloadWorker[];
+}
+
+/** @internal */
+export interface CallRObjectPipelineMessage extends Message {
+  type: 'callRObjectPipeline';
+  data: {
+    payload?: WebRPayloadPtr;
+    objType?: RType | RCtor;
+    calls: PipelineCall[];
+  };
+}
+
 /**
  * The configuration settings used when installing R packages.
  */
@@ -51,6 +73,135 @@ export interface InstallPackagesMessage extends Message {
   };
 }
 
+/**
+ * The outcome of installing R packages, as returned by
+ * `WebR.installPackages()`.
+ */
+export type InstallPackagesResult = {
+  /** Packages that were installed. */
+  installed: string[];
+  /** Packages that were already available and so were not installed again. */
+  present: string[];
+  /** Packages that could not be installed. */
+  failed: string[];
+  /** All of the above packages, in the order their dependencies were resolved. */
+  order: string[];
+};
+
+/**
+ * A progress event emitted to the output queue while R packages are being
+ * installed. As with other output messages, the event is instead delivered
+ * to handlers subscribed using `WebR.on()`, if there are any.
+ *
+ * - `resolving`: Looking up the requested packages in the package repositories.
+ * - `downloading`: Downloading a package. Emitted when the download starts,
+ *   and again with the number of `bytes` downloaded once it has finished.
+ * - `mounting`: Mounting a package filesystem image, of size `bytes`.
+ * - `extracting`: Extracting a downloaded package `.tgz` file, of size `bytes`.
+ * - `done`: A package has been handled, with outcome given by `status`.
+ */
+export interface InstallProgressMessage extends Message {
+  type: 'installProgress';
+  data: {
+    stage: 'resolving' | 'downloading' | 'mounting' | 'extracting' | 'done';
+    packages: string[];
+    bytes?: number;
+    status?: 'installed' | 'present' | 'failed';
+  };
+}
+
+/** @internal */
+export interface AddLocalRepoMessage extends Message {
+  type: 'addLocalRepo';
+  data: {
+    path: string;
+    files?: { name: string; data: Uint8Array }[];
+  };
+}
+
+/**
+ * A file or directory in the home directory of a webR session snapshot.
+ */
+export type WebRSnapshotFile = {
+  /** The path to the file, relative to the home directory. */
+  path: string;
+  /** The type of filesystem node. */
+  type: 'file' | 'directory' | 'symlink';
+  /** The file mode, including permission bits. */
+  mode: number;
+  /** The contents of a file. */
+  data?: Uint8Array;
+  /** The target of a symbolic link. */
+  target?: string;
+};
+
+/**
+ * The state of a webR session, as returned by `WebR.snapshot()`.
+ *
+ * The snapshot may be stored, e.g. using IndexedDB, and later given to
+ * `WebR.restore()` to return a freshly initialised session to the same
+ * state.
+ */
+export type WebRSnapshot = {
+  /** The version of webR that created the snapshot. */
+  version: string;
+  /** The contents of the R global environment, as output by `serialize()`. */
+  globalEnv: Uint8Array;
+  /** The names of attached R packages, in search path order. */
+  packages: string[];
+  /** The contents of the home directory on the virtual filesystem. */
+  files: WebRSnapshotFile[];
+};
+
+/** @internal */
+export interface SnapshotMessage extends Message {
+  type: 'snapshot';
+}
+
+/** @internal */
+export interface RestoreMessage extends Message {
+  type: 'restore';
+  data: { snapshot: WebRSnapshot };
+}
+
+/**
+ * Memory usage for a type of R heap storage, as reported by `gc()`.
+ */
+export type WebRGCStats = {
+  /** The number of cells in use. */
+  used: number;
+  /** The memory in use, in megabytes. */
+  usedMb: number;
+  /** The number of cells in use that will trigger the next garbage collection. */
+  trigger: number;
+  /** The memory in use that will trigger the next garbage collection, in megabytes. */
+  triggerMb: number;
+};
+
+/**
+ * Memory usage and communication statistics for a webR session, as returned
+ * by `WebR.stats()`.
+ */
+export type WebRStats = {
+  /** The current size of the WebAssembly heap, in bytes. */
+  heapSize: number;
+  /** The size that the WebAssembly heap is unable to grow beyond, in bytes, set when webR is built. */
+  heapMax: number;
+  /** R cons cell usage, used for language objects and pairlists. */
+  Ncells: WebRGCStats;
+  /** R vector cell usage, used for the contents of vectors. */
+  Vcells: WebRGCStats;
+  /** The number of R objects protected by each shelter, keyed by shelter ID. */
+  shelters: { [id: string]: number };
+  /** The number of messages waiting in each communication channel queue. */
+  queues: { input: number; output: number; system: number };
+};
+
+/** @internal */
+export interface StatsMessage extends Message {
+  type: 'stats';
+}
+
 /**
  * The configuration settings used when evaluating R code.
  */
@@ -98,24 +249,64 @@ export interface EvalROptions {
    * Default: `true`.
    */
   withHandlers?: boolean;
+  /**
+   * An `AbortSignal` that cancels this evaluation when aborted. The returned
+   * promise is rejected with a `WebRInterruptError`. Other pending requests
+   * are not affected.
+   * Default: `undefined`.
+   */
+  signal?: AbortSignal;
+  /**
+   * Cancel this evaluation if it has not completed after the given number of
+   * milliseconds, rejecting with a `WebRInterruptError`.
+   * Default: `undefined`.
+   */
+  timeoutMs?: number;
 }
 
+/**
+ * The subset of {@link EvalROptions} that is forwarded to the webR worker
+ * thread. Request cancellation options are handled on the main thread.
+ * @internal
+ */
+export type EvalROptionsWorker = Omit<EvalROptions, 'signal' | 'timeoutMs'>;
+
 /** @internal */
 export interface CaptureRMessage extends Message {
   type: 'captureR';
   data: {
     code: string;
-    options: EvalROptions;
+    options: EvalROptionsWorker;
     shelter: ShelterID;
   };
 }
 
+/** @internal */
+export interface StreamRMessage extends Message {
+  type: 'streamR';
+  data: {
+    code: string;
+    options: EvalROptionsWorker;
+    shelter: ShelterID;
+  };
+}
+
+/**
+ * Output events emitted by the worker while handling a `streamR` request.
+ * Plot images are forwarded as `canvasImage` canvas messages.
+ * @internal
+ */
+export type StreamROutputMessage =
+  | { type: 'stdout' | 'stderr'; data: string }
+  | { type: 'message' | 'warning' | 'error'; data: WebRPayloadPtr }
+  | CanvasMessage;
+
 /** @internal */
 export interface EvalRMessage extends Message {
   type: 'evalR';
   data: {
     code: string;
-    options: EvalROptions;
+    options: EvalROptionsWorker;
     shelter: ShelterID;
     outputType?: EvalRMessageOutputType
   };
@@ -128,21 +319,65 @@ export type EvalRMessageOutputType =
   | 'number'
   | 'number[]'
   | 'string'
-  | 'string[]';
+  | 'string[]'
+  | 'Float64Array'
+  | 'Int32Array'
+  | 'matrix'
+  | 'matrix:row-major'
+  | 'data.frame'
+  | 'json';
+
+/**
+ * An R matrix returned by `evalRRaw()` with output type `'matrix'` or
+ * `'matrix:row-major'`.
+ *
+ * Numeric matrices are returned using typed arrays, logical and character
+ * matrices using JavaScript arrays. Matrix elements are given in the order
+ * specified by `order`.
+ */
+export type EvalRRawMatrix = {
+  /** The number of rows and columns of the matrix. */
+  dim: [number, number];
+  /** The order of the elements in `data`. */
+  order: 'column-major' | 'row-major';
+  /** The matrix elements. */
+  data: Float64Array | Int32Array | boolean[] | string[];
+};
+
+/**
+ * An R data frame returned by `evalRRaw()` with output type `'data.frame'`.
+ *
+ * Each column is given as a JavaScript array, keyed by column name. Missing
+ * values are returned as `null`, and factors are converted to their labels.
+ */
+export type EvalRRawDataFrame = {
+  [column: string]: (number | null)[] | (boolean | null)[] | (string | null)[];
+};
 
 /** @internal */
 export interface EvalRMessageRaw extends Message {
   type: 'evalRRaw';
   data: {
     code: string;
-    options: EvalROptions;
+    options: EvalROptionsWorker;
     outputType: EvalRMessageOutputType
   };
 }
 
 /** @internal */
 export interface FSMessage extends Message {
-  type: 'lookupPath' | 'mkdir' | 'rmdir' | 'unlink' | 'unmount';
+  type:
+    | 'lookupPath'
+    | 'stat'
+    | 'lstat'
+    | 'readdir'
+    | 'readlink'
+    | 'mkdir'
+    | 'mkdirTree'
+    | 'glob'
+    | 'rmdir'
+    | 'unlink'
+    | 'unmount';
   data: { path: string };
 }
 
@@ -155,6 +390,25 @@ export interface FSAnalyzePathMessage extends Message {
   };
 }
 
+/** @internal */
+export interface FSCopyMessage extends Message {
+  type: 'copy';
+  data: {
+    src: string;
+    dst: string;
+    recursive: boolean;
+  };
+}
+
+/** @internal */
+export interface FSRemoveMessage extends Message {
+  type: 'remove';
+  data: {
+    path: string;
+    recursive: boolean;
+  };
+}
+
 /** @internal */
 export interface FSMountMessage extends Message {
   type: 'mount';
@@ -199,6 +453,87 @@ export interface FSWriteFileMessage extends Message {
   };
 }
 
+/** @internal */
+export interface FSExportArchiveMessage extends Message {
+  type: 'exportArchive';
+  data: {
+    path: string;
+    format: FSArchiveFormat;
+  };
+}
+
+/** @internal */
+export interface FSImportArchiveMessage extends Message {
+  type: 'importArchive';
+  data: {
+    data: Uint8Array;
+    mountpoint: string;
+  };
+}
+
+/** @internal */
+export interface FSOpenStreamMessage extends Message {
+  type: 'openStream';
+  data: {
+    path: string;
+    flags: string;
+  };
+}
+
+/** @internal */
+export interface FSReadStreamMessage extends Message {
+  type: 'readStream';
+  data: {
+    id: string;
+    position: number;
+    length: number;
+  };
+}
+
+/** @internal */
+export interface FSWriteStreamMessage extends Message {
+  type: 'writeStream';
+  data: {
+    id: string;
+    position: number;
+    data: Uint8Array;
+  };
+}
+
+/** @internal */
+export interface FSCloseStreamMessage extends Message {
+  type: 'closeStream';
+  data: { id: string };
+}
+
+/** @internal */
+export interface FSWatchMessage extends Message {
+  type: 'watch';
+  data: {
+    path: string;
+    recursive: boolean;
+  };
+}
+
+/** @internal */
+export interface FSUnwatchMessage extends Message {
+  type: 'unwatch';
+  data: { id: string };
+}
+
+/**
+ * A change to the VFS, sent to the output queue for the watchers matching the
+ * changed path.
+ * @internal
+ */
+export interface FSWatchEventMessage extends Message {
+  type: 'fsWatchEvent';
+  data: {
+    watchers: string[];
+    event: FSWatchEvent;
+  };
+}
+
 /** @internal */
 export interface InvokeWasmFunctionMessage extends Message {
   type: 'invokeWasmFunction';
@@ -229,7 +564,13 @@ export interface ShelterMessage extends Message {
 /** @internal */
 export interface ShelterDestroyMessage extends Message {
   type: 'shelterDestroy';
-  data: { id: ShelterID; obj: WebRPayloadPtr };
+  data: { id: ShelterID; obj: WebRPayloadPtr | WebRPayloadPtr[] };
+}
+
+/** @internal */
+export interface JsCallMessage extends Message {
+  type: 'jsCall';
+  data: { name: string; args: WebRDataJs[] };
 }
 
 export interface CanvasMessage extends Message {
@@ -268,3 +609,28 @@ export interface BrowseMessage extends Message {
   type: 'browse';
   data: { url: string };
 }
+
+export interface StreamOutputMessage extends Message {
+  type: 'stdout' | 'stderr' | 'prompt';
+  data: string;
+}
+
+export interface ClosedMessage extends Message {
+  type: 'closed';
+}
+
+/**
+ * Output messages delivered to handlers registered with `WebR.on()`, keyed
+ * by message type.
+ */
+export interface WebREventMap {
+  stdout: StreamOutputMessage & { type: 'stdout' };
+  stderr: StreamOutputMessage & { type: 'stderr' };
+  prompt: StreamOutputMessage & { type: 'prompt' };
+  canvas: CanvasMessage;
+  pager: PagerMessage;
+  view: ViewMessage;
+  browse: BrowseMessage;
+  installProgress: InstallProgressMessage;
+  closed: ClosedMessage;
+}
@@ -3,41 +3,68 @@
  * @module WebR
  */
 
-import { ChannelMain } from './chan/channel';
+import { ChannelMain, RequestOptions } from './chan/channel';
 import { newChannelMain, ChannelType } from './chan/channel-common';
 import { Message } from './chan/message';
 import { BASE_URL, PKG_BASE_URL, WEBR_VERSION } from './config';
 import { EmPtr } from './emscripten';
 import { WebRPayloadPtr } from './payload';
-import { newRProxy, newRClassProxy } from './proxy';
+import { newRProxy, newRClassProxy, ProxyFinalizer, ProxyOwner } from './proxy';
 import { isRObject, RCharacter, RComplex, RDouble } from './robj-main';
-import { REnvironment, RSymbol, RInteger, RList, RDataFrame } from './robj-main';
-import { RLogical, RNull, RObject, RPairlist, RRaw, RString, RCall } from './robj-main';
+import { REnvironment, RSymbol, RInteger, RList, RDataFrame, RArray, RMatrix } from './robj-main';
+import { RLogical, RNull, RObject, RPairlist, RRaw, RString, RCall, RS4 } from './robj-main';
 import { replaceInObject } from './utils';
+import { WebRData, WebRDataJs } from './robj';
 import * as RWorker from './robj-worker';
-import { WebRError, WebRPayloadError } from './error';
+import { WebRError, WebRPayloadError, WebRWorkerError } from './error';
+import { AsyncQueue } from './chan/queue';
 
 import {
+  AddLocalRepoMessage,
   CaptureRMessage,
   EvalRMessage,
   EvalRMessageOutputType,
   EvalRMessageRaw,
+  EvalRRawDataFrame,
+  EvalRRawMatrix,
   EvalROptions,
+  EvalROptionsWorker,
   FSMessage,
+  FSCopyMessage,
+  FSRemoveMessage,
+  FSExportArchiveMessage,
+  FSImportArchiveMessage,
   FSMountMessage,
+  FSOpenStreamMessage,
+  FSReadStreamMessage,
+  FSWriteStreamMessage,
+  FSCloseStreamMessage,
   FSSyncfsMessage,
   FSReadFileMessage,
+  FSUnwatchMessage,
+  FSWatchMessage,
+  FSWatchEventMessage,
   FSWriteFileMessage,
   InstallPackagesOptions,
   InvokeWasmFunctionMessage,
   NewShelterMessage,
   ShelterDestroyMessage,
   ShelterMessage,
+  StreamRMessage,
+  StreamROutputMessage,
   FSRenameMessage,
   FSAnalyzePathMessage,
+  InstallPackagesResult,
+  RestoreMessage,
+  SnapshotMessage,
+  StatsMessage,
+  WebREventMap,
+  WebRSnapshot,
+  WebRStats,
 } from './webr-chan';
 
 export { Console, ConsoleCallbacks } from './console';
+export { WebRPool, WebRPoolOptions, WebRPoolScheduling } from './pool';
 export * from './robj-main';
 export * from './error';
 export * from './webr-chan';
@@ -54,12 +81,113 @@ export interface WebRFS {
    * @returns {Promise<FSNode>} The requested node.
    */
   lookupPath: (path: string) => Promise<FSNode>;
+  /**
+   * Get POSIX-style metadata for a file or directory on the Emscripten
+   * virtual file system, following symbolic links.
+   * @param {string} path Path to the requested node.
+   * @returns {Promise<FSStat>} Metadata for the requested node.
+   */
+  stat: (path: string) => Promise<FSStat>;
+  /**
+   * Get POSIX-style metadata for a file or directory on the Emscripten
+   * virtual file system. If the node is a symbolic link, metadata for the
+   * link itself is returned.
+   * @param {string} path Path to the requested node.
+   * @returns {Promise<FSStat>} Metadata for the requested node.
+   */
+  lstat: (path: string) => Promise<FSStat>;
+  /**
+   * List the names of the entries in a directory on the Emscripten virtual
+   * file system, excluding `.` and `..`. The contents of subdirectories are
+   * not listed.
+   * @param {string} path Path of the directory to list.
+   * @returns {Promise<string[]>} The names of the directory entries.
+   */
+  readdir: (path: string) => Promise<string[]>;
+  /**
+   * Get the target of a symbolic link on the Emscripten virtual file system.
+   * @param {string} path Path of the symbolic link.
+   * @returns {Promise<string>} The target of the symbolic link.
+   */
+  readlink: (path: string) => Promise<string>;
+  /**
+   * Watch a file or directory on the Emscripten virtual file system for
+   * changes. Changes are reported for the watched path itself and for the
+   * entries of a watched directory, including the contents of its
+   * subdirectories when `recursive` is `true`.
+   *
+   * Watching begins once iteration of the returned generator has started,
+   * and ends when iteration stops, the given abort signal is triggered, or the
+   * webR worker is closed.
+   * @param {string} path Path of the file or directory to watch.
+   * @param {FSWatchOptions} [options] Options for the watcher.
+   * @yields {Promise<FSWatchEvent>} Changes to the watched path.
+   */
+  watch: (path: string, options?: FSWatchOptions) => AsyncGenerator<FSWatchEvent, void>;
   /**
    * Create a directory on the Emscripten virtual file system.
    * @param {string} path Path of the directory to create.
    * @returns {Promise<FSNode>} The newly created directory node.
    */
   mkdir: (path: string) => Promise<FSNode>;
+  /**
+   * Create a directory on the Emscripten virtual file system, along with any
+   * missing parent directories. Existing directories are left unchanged.
+   * @param {string} path Path of the directory to create.
+   */
+  mkdirTree: (path: string) => Promise<void>;
+  /**
+   * Copy a file, symbolic link, or directory on the Emscripten virtual file
+   * system. Existing files at the destination are overwritten.
+   * @param {string} src Path of the node to copy.
+   * @param {string} dst Path of the copy.
+   * @param {FSCopyOptions} [options] Options for the copy.
+   */
+  copy: (src: string, dst: string, options?: FSCopyOptions) => Promise<void>;
+  /**
+   * Remove a file, symbolic link, or directory on the Emscripten virtual file
+   * system. A non-empty directory is only removed if `recursive` is `true`.
+   * Directories containing a mounted filesystem are not removed.
+   * @param {string} path Path of the node to remove.
+   * @param {FSRemoveOptions} [options] Options for the removal.
+   */
+  remove: (path: string, options?: FSRemoveOptions) => Promise<void>;
+  /**
+   * Find the paths on the Emscripten virtual file system matching a glob
+   * pattern.
+   *
+   * Each path component of the pattern may use `*` to match any characters,
+   * `?` to match a single character, and `[...]` or `[!...]` to match one of
+   * a set of characters. A `**` component matches any number of nested
+   * directories. Wildcards do not match names starting with `.`, unless the
+   * pattern component also starts with `.`.
+   * @param {string} pattern The glob pattern. Relative patterns are matched
+   * from the current working directory and give relative paths.
+   * @returns {Promise<string[]>} The matching paths, in sorted order.
+   */
+  glob: (pattern: string) => Promise<string[]>;
+  /**
+   * Create a zip or gzipped tar archive of a file or directory on the
+   * Emscripten virtual file system. The archive contains a single top-level
+   * entry, named for the final component of `path`.
+   * @param {string} path Path of the file or directory to archive.
+   * @param {FSArchiveFormat} [format] The archive format. Default: `'zip'`.
+   * @returns {Promise<Uint8Array>} The content of the archive.
+   */
+  exportArchive: (path: string, format?: FSArchiveFormat) => Promise<Uint8Array>;
+  /**
+   * Extract a zip, tar or gzipped tar archive into a directory on the
+   * Emscripten virtual file system. The archive format is detected from its
+   * content. The directory is created if it does not exist, and existing
+   * files are overwritten. Archives with entries or symbolic links pointing
+   * outside of the directory, or with entries that would be written through
+   * a symbolic link, are rejected without extracting any entries.
+   * @param {Blob | Uint8Array} data The content of the archive.
+   * @param {string} mountpoint Path of the directory to extract into.
+   * @returns {Promise<string[]>} The paths of the extracted files and
+   * directories.
+   */
+  importArchive: (data: Blob | ArrayBufferView, mountpoint: string) => Promise<string[]>;
   /**
    * Get the content of a file on the Emscripten virtual file system.
    * @param {string} path Path of the file to read.
@@ -67,6 +195,30 @@ export interface WebRFS {
    * @returns {Promise<Uint8Array>} The content of the requested file.
    */
   readFile: (path: string, flags?: string) => Promise<Uint8Array>;
+  /**
+   * Read a file on the Emscripten virtual file system as a stream. The file
+   * is transferred from the worker in chunks of at most `chunkSize` bytes,
+   * each read as it is required by the consumer of the stream.
+   * @param {string} path Path of the file to read.
+   * @param {FSReadStreamOptions} [options] Options for reading the file.
+   * @returns {ReadableStream<Uint8Array>} A stream of the content of the file.
+   */
+  createReadStream: (path: string, options?: FSReadStreamOptions) => ReadableStream<Uint8Array>;
+  /**
+   * Write a file on the Emscripten virtual file system using a stream. Data
+   * written to the stream is transferred to the worker in chunks of at most
+   * `chunkSize` bytes.
+   *
+   * Unless a `start` position is given, the file is created or truncated.
+   * The file is closed once the stream is closed or aborted.
+   * @param {string} path Path of the file to write.
+   * @param {FSWriteStreamOptions} [options] Options for writing the file.
+   * @returns {WritableStream<Uint8Array>} A stream used to write the file.
+   */
+  createWriteStream: (
+    path: string,
+    options?: FSWriteStreamOptions
+  ) => WritableStream<ArrayBufferView>;
   /**
    * Remove a directory on the Emscripten virtual file system.
    * @param {string} path Path of the directory to remove.
@@ -100,6 +252,108 @@ export type FSNode = {
   }
 };
 
+/** POSIX-style metadata for a node in the Emscripten Virtual File System */
+export type FSStat = {
+  dev: number;
+  ino: number;
+  mode: number;
+  nlink: number;
+  uid: number;
+  gid: number;
+  rdev: number;
+  size: number;
+  blksize: number;
+  blocks: number;
+  atime: Date;
+  mtime: Date;
+  ctime: Date;
+  /** The type of node, as given by the file type bits of `mode`. */
+  type: 'file' | 'directory' | 'symlink' | 'other';
+};
+
+/** An archive format supported by {@link WebRFS.exportArchive}. */
+export type FSArchiveFormat = 'zip' | 'tar.gz';
+
+/** Options for copying with {@link WebRFS.copy}. */
+export type FSCopyOptions = {
+  /**
+   * Copy directories along with their contents, merging with any existing
+   * directory at the destination.
+   * Default: `false`.
+   */
+  recursive?: boolean;
+};
+
+/** Options for removing with {@link WebRFS.remove}. */
+export type FSRemoveOptions = {
+  /**
+   * Remove directories along with their contents.
+   * Default: `false`.
+   */
+  recursive?: boolean;
+};
+
+/** Options for reading a file with {@link WebRFS.createReadStream}. */
+export type FSReadStreamOptions = {
+  /**
+   * The maximum size of each chunk of the file, in bytes.
+   * Default: `1048576` (1 MiB).
+   */
+  chunkSize?: number;
+  /**
+   * The byte offset at which to start reading.
+   * Default: `0`.
+   */
+  start?: number;
+  /**
+   * The byte offset at which to stop reading, exclusive. By default, the file
+   * is read until its end.
+   */
+  end?: number;
+};
+
+/** Options for writing a file with {@link WebRFS.createWriteStream}. */
+export type FSWriteStreamOptions = {
+  /**
+   * The maximum size of each chunk sent to the worker, in bytes.
+   * Default: `1048576` (1 MiB).
+   */
+  chunkSize?: number;
+  /**
+   * The byte offset at which to start writing to an existing file, keeping
+   * its other content. By default, the file is created or truncated and
+   * written from its start.
+   */
+  start?: number;
+};
+
+/** Options for watching a path with {@link WebRFS.watch}. */
+export type FSWatchOptions = {
+  /**
+   * Also report changes to the contents of subdirectories.
+   * Default: `false`.
+   */
+  recursive?: boolean;
+  /** An abort signal used to stop watching. */
+  signal?: AbortSignal;
+};
+
+/**
+ * A change to the Emscripten Virtual File System, reported by
+ * {@link WebRFS.watch}.
+ *
+ * Changes made by R and by the `FS` methods are both reported. A file is
+ * considered modified once it is closed after being written to, or when it
+ * is truncated.
+ */
+export type FSWatchEvent = {
+  type: 'create' | 'modify' | 'delete' | 'rename';
+  /** The absolute path of the changed node, or its new path if renamed. */
+  path: string;
+  /** The previous path of a renamed node. */
+  oldPath?: string;
+};
+
 /** An Emscripten Filesystem type */
 export type FSType = 'NODEFS' | 'WORKERFS' | 'IDBFS' | 'DRIVEFS';
 
@@ -198,6 +452,36 @@ export interface WebROptions {
    * Default: `true`.
    */
   createLazyFilesystem?: boolean;
+
+  /**
+   * Automatically release R objects protected by a shelter once the proxies
+   * referencing them have been garbage collected?
+   * Default: `false`.
+   */
+  autoDestroy?: boolean;
+
+  /**
+   * A MessagePort connected to a webR worker hosted elsewhere, for example in
+   * a SharedWorker or by a parent frame. Required when using the
+   * `MessagePort` communication channel, ignored otherwise.
+   * Default: `null`.
+   */
+  messagePort?: MessagePort | null;
+
+  /**
+   * Called when the webR worker closes due to an unrecoverable error, for
+   * example when R aborts after running out of memory. The session may be
+   * recovered by calling `WebR.restart()`.
+   * Default: `null`.
+   */
+  onCrash?: ((error: WebRWorkerError) => void) | null;
+
+  /**
+   * Called once a new webR worker started by `WebR.restart()` has been
+   * initialised and previously mounted filesystems have been mounted again.
+   * Default: `null`.
+   */
+  onRestart?: (() => void) | null;
 }
 
 const defaultEnv = {
@@ -208,6 +492,10 @@ const defaultEnv = {
   WEBR_VERSION: WEBR_VERSION,
 };
 
+// The default size of chunks moved by `FS.createReadStream()` and
+// `FS.createWriteStream()`
+const FS_STREAM_CHUNK_SIZE = 1024 * 1024;
+
 const defaultOptions = {
   RArgs: [],
   REnv: defaultEnv,
@@ -218,6 +506,10 @@ const defaultOptions = {
   interactive: true,
   channelType: ChannelType.Automatic,
   createLazyFilesystem: true,
+  autoDestroy: false,
+  messagePort: null,
+  onCrash: null,
+  onRestart: null,
 };
 
 /**
@@ -228,8 +520,17 @@ const defaultOptions = {
  * and start a version of R built for WebAssembly in a worker thread.
  */
 export class WebR {
-  #chan: ChannelMain;
-  #initialised: Promise<unknown>;
+  #chan!: ChannelMain;
+  #initialised!: Promise<unknown>;
+  #config: Required<WebROptions>;
+  #handlers = new Map<string, Set<(msg: Message) => void>>();
+  // Filesystems mounted using `FS.mount()`, mounted again on restart
+  #mounts: FSMountMessage['data'][] = [];
+  // Paths of local package repositories, registered again on restart
+  #localRepos = new Set<string>();
+  #functions = new Map<string, (...args: WebRDataJs[]) => unknown>();
+  // Event queues for active `FS.watch()` generators, by worker watcher ID
+  #watchers = new Map<string, AsyncQueue<FSWatchEvent | null>>();
   globalShelter!: Shelter;
   version: string = WEBR_VERSION;
 
@@ -242,11 +543,14 @@ export class WebR {
   RRaw!: ReturnType<typeof newRClassProxy<typeof RWorker.RRaw, RRaw>>;
   RList!: ReturnType<typeof newRClassProxy<typeof RWorker.RList, RList>>;
   RDataFrame!: ReturnType<typeof newRClassProxy<typeof RWorker.RDataFrame, RDataFrame>>;
+  RArray!: ReturnType<typeof newRClassProxy<typeof RWorker.RArray, RArray>>;
+  RMatrix!: ReturnType<typeof newRClassProxy<typeof RWorker.RMatrix, RMatrix>>;
   RPairlist!: ReturnType<typeof newRClassProxy<typeof RWorker.RPairlist, RPairlist>>;
   REnvironment!: ReturnType<typeof newRClassProxy<typeof RWorker.REnvironment, REnvironment>>;
   RSymbol!: ReturnType<typeof newRClassProxy<typeof RWorker.RSymbol, RSymbol>>;
   RString!: ReturnType<typeof newRClassProxy<typeof RWorker.RString, RString>>;
   RCall!: ReturnType<typeof newRClassProxy<typeof RWorker.RCall, RCall>>;
+  RS4!: ReturnType<typeof newRClassProxy<typeof RWorker.RS4, RS4>>;
 
   objs: {
     baseEnv: REnvironment;
@@ -257,7 +561,7 @@ export class WebR {
     na: RLogical;
   };
 
-  Shelter;
+  Shelter!: ReturnType<typeof newShelterProxy>;
 
   constructor(options: WebROptions = {}) {
     const config: Required<WebROptions> = {
@@ -268,10 +572,18 @@ export class WebR {
         ...options.REnv,
       }
     };
-    this.#chan = newChannelMain(config);
-
+    this.#config = config;
     this.objs = {} as typeof this.objs;
-    this.Shelter = newShelterProxy(this.#chan);
+    this.#start();
+  }
+
+  #start() {
+    // Hooks are called on the main thread and are not sent to the worker
+    const chan = newChannelMain({ ...this.#config, onCrash: null, onRestart: null });
+    chan.onOutput = (msg) => this.#onOutput(msg);
+    this.#functions.forEach((fn, name) => chan.registerFunction(name, fn));
+    this.#chan = chan;
+    this.Shelter = newShelterProxy(chan, this.#config.autoDestroy);
 
     this.#initialised = this.#chan.initialised.then(async () => {
       this.globalShelter = await new this.Shelter();
@@ -285,11 +597,14 @@ export class WebR {
       this.RRaw = this.globalShelter.RRaw;
       this.RList = this.globalShelter.RList;
       this.RDataFrame = this.globalShelter.RDataFrame;
+      this.RArray = this.globalShelter.RArray;
+      this.RMatrix = this.globalShelter.RMatrix;
       this.RPairlist = this.globalShelter.RPairlist;
       this.REnvironment = this.globalShelter.REnvironment;
       this.RSymbol = this.globalShelter.RSymbol;
       this.RString = this.globalShelter.RString;
       this.RCall = this.globalShelter.RCall;
+      this.RS4 = this.globalShelter.RS4;
 
       this.objs = {
         baseEnv: (await this.RObject.getPersistentObject('baseEnv')) as REnvironment,
@@ -300,7 +615,7 @@ export class WebR {
         na: (await this.RObject.getPersistentObject('na')) as RLogical,
       };
 
-      void this.#handleSystemMessages();
+      void this.#handleSystemMessages(chan);
     });
   }
 
@@ -312,9 +627,9 @@ export class WebR {
     return this.#initialised;
   }
 
-  async #handleSystemMessages() {
+  async #handleSystemMessages(chan: ChannelMain) {
     for (; ;) {
-      const msg = await this.#chan.readSystem();
+      const msg = await chan.readSystem();
       switch (msg.type) {
         case 'setTimeoutWasm':
           /* Handle messages requesting a delayed invocation of a wasm function.
@@ -340,8 +655,13 @@ export class WebR {
           console.error(msg.data);
           break;
         case 'close':
-          this.#chan.close();
-          break;
+          chan.close();
+          if (chan === this.#chan) {
+            this.#config.onCrash?.(new WebRWorkerError(
+              `The webR worker has closed due to an unrecoverable error: ${msg.data as string}`
+            ));
+          }
+          return;
         default:
           throw new WebRError('Unknown system message type `' + msg.type + '`');
       }
@@ -357,6 +677,49 @@ export class WebR {
     this.#chan.close();
   }
 
+  /**
+   * Close the current webR worker thread, if still running, and start a new
+   * worker using the same {@link WebROptions}.
+   *
+   * R objects, shelters and the contents of the virtual filesystem belonging
+   * to the previous worker are not available once restarted. Filesystems
+   * previously mounted using `FS.mount()` and functions registered using
+   * `registerFunction()` are made available to the new worker, and handlers
+   * subscribed using `on()` continue to receive output messages. Local package
+   * repositories registered using `addLocalRepo()` are registered again if
+   * their `PACKAGES` index still exists, for example on a mounted filesystem.
+   * @returns {Promise<void>} A promise that resolves once the new worker has
+   * been initialised.
+   */
+  async restart() {
+    if (this.#config.channelType === ChannelType.MessagePort) {
+      throw new WebRError(
+        "WebR can't be restarted when using the `MessagePort` communication channel."
+      );
+    }
+    this.#chan.close();
+    this.#start();
+    await this.#initialised;
+
+    for (const mount of this.#mounts) {
+      await this.FS.mkdirTree(mount.mountpoint);
+      const msg: FSMountMessage = { type: 'mount', data: mount };
+      await this.#chan.request(msg);
+    }
+    // Local repositories are only registered again while their `PACKAGES`
+    // index exists, such as on a filesystem that has been mounted again
+    for (const path of this.#localRepos) {
+      if (!(await this.FS.analyzePath(`${path}/PACKAGES`)).exists) {
+        console.warn(`Local package repository \`${path}\` is not available after restart.`);
+        this.#localRepos.delete(path);
+        continue;
+      }
+      const msg: AddLocalRepoMessage = { type: 'addLocalRepo', data: { path } };
+      await this.#chan.request(msg);
+    }
+    this.#config.onRestart?.();
+  }
+
   /**
    * Read from the communication channel and return an output message.
    * @returns {Promise<Message>} The output message
@@ -379,6 +742,81 @@ export class WebR {
     }
   }
 
+  /**
+   * Subscribe to output messages of the given type. Any number of handlers
+   * may be subscribed to each type of message, and are called in the order in
+   * which they were subscribed.
+   *
+   * While at least one handler is subscribed to a type of message, messages of
+   * that type are delivered to the handlers rather than to the output queue
+   * read by `read()`, `stream()` and `flush()`. The `closed` message is always
+   * also added to the output queue. Exceptions thrown by handlers are logged
+   * to the console.
+   * @template K
+   * @param {K} event The type of output message.
+   * @param {(msg: WebREventMap[K]) => void} handler Called with each output
+   * message of the given type.
+   * @returns {() => void} A function that unsubscribes the handler.
+   */
+  on<K extends keyof WebREventMap>(event: K, handler: (msg: WebREventMap[K]) => void): () => void {
+    let handlers = this.#handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.#handlers.set(event, handlers);
+    }
+    handlers.add(handler as (msg: Message) => void);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Unsubscribe a handler previously subscribed with `on()`.
+   * @template K
+   * @param {K} event The type of output message.
+   * @param {(msg: WebREventMap[K]) => void} handler The handler to unsubscribe.
+   */
+  off<K extends keyof WebREventMap>(event: K, handler: (msg: WebREventMap[K]) => void) {
+    this.#handlers.get(event)?.delete(handler as (msg: Message) => void);
+  }
+
+  /*
+   * Route VFS changes to their watchers, ending every watcher once the
+   * channel is closed, and deliver other output messages to handlers.
+   */
+  #onOutput(msg: Message): boolean {
+    switch (msg.type) {
+      case 'fsWatchEvent': {
+        const { watchers, event } = (msg as FSWatchEventMessage).data;
+        watchers.forEach((id) => this.#watchers.get(id)?.put(event));
+        return true;
+      }
+      case 'closed':
+        this.#watchers.forEach((events) => events.put(null));
+        break;
+    }
+    return this.#emit(msg);
+  }
+
+  /*
+   * Deliver an output message to its subscribed handlers, returning `true` if
+   * there are any. Handlers are called in a microtask, so that messages from
+   * the worker are handled in the meantime. An exception thrown by a handler
+   * is logged, rather than left uncaught, and other handlers are still called.
+   */
+  #emit(msg: Message): boolean {
+    const handlers = this.#handlers.get(msg.type);
+    if (!handlers || handlers.size === 0) {
+      return false;
+    }
+    handlers.forEach((handler) => queueMicrotask(() => {
+      try {
+        handler(msg);
+      } catch (e) {
+        console.error(e);
+      }
+    }));
+    return true;
+  }
+
   /**
    * Flush the output queue in the communication channel and return all output
    * messages.
@@ -409,21 +847,93 @@ export class WebR {
     this.#chan.interrupt();
   }
 
+  /**
+   * Register a JavaScript function that may be called from R code using
+   * `webr::js_call(name, ...)`. R is blocked until the function returns, or
+   * until the promise returned by the function settles.
+   *
+   * The arguments of the R call are given to the function in the form of
+   * {@link WebRDataJs} objects. The function's result is converted into an R
+   * object using the {@link RObject} constructor. An error thrown by the
+   * function is raised as an R error condition.
+   *
+   * Calling a registered function requires the `SharedArrayBuffer` or
+   * `ServiceWorker` communication channel. Since the worker thread is blocked
+   * while the function runs, the function must not make requests to webR,
+   * such as calling `evalR()` or the methods of R object references. Existing
+   * R object references may be returned as the result.
+   * @param {string} name The name used to call the function from R.
+   * @param {(...args: WebRDataJs[]) => WebRData | Promise<WebRData>} fn The
+   * function to register.
+   */
+  registerFunction(name: string, fn: (...args: WebRDataJs[]) => WebRData | Promise<WebRData>) {
+    const wrapped = async (...args: WebRDataJs[]) => {
+      const res = await fn(...args);
+      return replaceInObject(res, isRObject, (obj: RObject) => obj._payload);
+    };
+    this.#functions.set(name, wrapped);
+    this.#chan.registerFunction(name, wrapped);
+  }
+
   /**
    * Install a list of R packages from Wasm binary package repositories.
    * @param {string | string[]} packages An string or array of strings
    *   containing R package names.
    * @param {InstallPackagesOptions} [options] Options to be used when
    *   installing webR packages.
+   * @returns {Promise<InstallPackagesResult>} The packages that were
+   *   installed, were already present, or could not be installed.
    */
-  async installPackages(packages: string | string[], options?: InstallPackagesOptions) {
+  async installPackages(
+    packages: string | string[],
+    options?: InstallPackagesOptions
+  ): Promise<InstallPackagesResult> {
     const op = Object.assign({
       quiet: false,
       mount: true
     }, options);
 
     const msg = { type: 'installPackages', data: { name: packages, options: op } };
-    await this.#chan.request(msg);
+    const payload = await this.#chan.request(msg);
+    return payload.obj as InstallPackagesResult;
+  }
+
+  /**
+   * Register a local package repository, from which packages may be installed
+   * without network access.
+   *
+   * The repository is a directory on the virtual filesystem containing a
+   * `PACKAGES` index and the `.tgz` package files it lists. Alternatively, the
+   * repository may follow the usual `bin/emscripten/contrib/<version>`
+   * layout of a webR binary repository. If `files` are given, they are first
+   * written to the directory.
+   *
+   * The repository is searched ahead of the default repository when
+   * `installPackages()` or `webr::install()` are used without specifying
+   * `repos`. In fully offline environments, use the returned URL as `repos` to
+   * avoid contacting the default repository.
+   * @param {string} path The repository directory on the virtual filesystem.
+   * @param {Array<{ name: string, data: Blob | Uint8Array }>} [files]
+   * Files to write to the repository directory, such as `PACKAGES` and
+   * package `.tgz` files.
+   * @returns {Promise<string>} The `file:` URL of the repository.
+   */
+  async addLocalRepo(
+    path: string,
+    files?: Array<{ name: string, data: Blob | ArrayBufferView }>
+  ): Promise<string> {
+    // Convert blobs to Uint8Array for transfer over the communication channel
+    const data = files && await Promise.all(files.map(async ({ name, data }) => ({
+      name,
+      data: data instanceof Blob
+        ? new Uint8Array(await data.arrayBuffer())
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+    })));
+
+    const msg: AddLocalRepoMessage = { type: 'addLocalRepo', data: { path, files: data } };
+    const payload = await this.#chan.request(msg);
+    this.#localRepos.add(path);
+    return payload.obj as string;
   }
 
   /**
@@ -434,11 +944,66 @@ export class WebR {
     await this.globalShelter.destroy(x);
   }
 
+  /**
+   * Capture the current state of the R session.
+   *
+   * The snapshot contains the serialised contents of the R global environment,
+   * the names of attached packages, and the contents of the home directory on
+   * the virtual filesystem. Filesystems mounted within the home directory are
+   * not included.
+   * @returns {Promise<WebRSnapshot>} A snapshot of the R session.
+   */
+  async snapshot(): Promise<WebRSnapshot> {
+    const msg: SnapshotMessage = { type: 'snapshot' };
+    const payload = await this.#chan.request(msg);
+    return payload.obj as WebRSnapshot;
+  }
+
+  /**
+   * Restore the state of the R session from a snapshot.
+   *
+   * Files in the snapshot are written to the home directory, attached packages
+   * are loaded, installing them if required, and the contents of the R global
+   * environment are restored. This is intended to be used with a freshly
+   * initialised instance of webR.
+   * @param {WebRSnapshot} snapshot A snapshot, as returned by `snapshot()`.
+   */
+  async restore(snapshot: WebRSnapshot) {
+    const msg: RestoreMessage = { type: 'restore', data: { snapshot } };
+    await this.#chan.request(msg);
+  }
+
+  /**
+   * Report memory usage in the webR worker thread, along with the number of
+   * messages waiting in the communication channel queues.
+   *
+   * R heap usage is obtained using `gc()`, and so a garbage collection is run
+   * as part of collecting the statistics.
+   * @returns {Promise<WebRStats>} Memory usage and communication statistics.
+   */
+  async stats(): Promise<WebRStats> {
+    const msg: StatsMessage = { type: 'stats' };
+    const payload = await this.#chan.request(msg);
+    return {
+      ...(payload.obj as Omit<WebRStats, 'queues'>),
+      queues: {
+        // A negative length means there are readers waiting on an empty queue
+        input: Math.max(0, this.#chan.inputQueue.length),
+        output: Math.max(0, this.#chan.outputQueue.length),
+        system: Math.max(0, this.#chan.systemQueue.length),
+      },
+    };
+  }
+
   /**
    * Evaluate the given R code.
    *
    * Stream outputs and any conditions raised during execution are written to
    * the JavaScript console.
+   *
+   * A single evaluation can be cancelled using the `signal` or `timeoutMs`
+   * options, rejecting with a `WebRInterruptError`. Unlike
+   * {@link WebR.interrupt}, other queued requests are unaffected.
    * @param {string} code The R code to evaluate.
    * @param {EvalROptions} [options] Options for the execution environment.
    * @returns {Promise<RObject>} The result of the computation.
@@ -477,13 +1042,26 @@ export class WebR {
   async evalRRaw(code: string, outputType: 'number[]', options?: EvalROptions): Promise<number[]>;
   async evalRRaw(code: string, outputType: 'string', options?: EvalROptions): Promise<string>;
   async evalRRaw(code: string, outputType: 'string[]', options?: EvalROptions): Promise<string[]>;
+  async evalRRaw(code: string, outputType: 'Float64Array', options?: EvalROptions): Promise<Float64Array>;
+  async evalRRaw(code: string, outputType: 'Int32Array', options?: EvalROptions): Promise<Int32Array>;
+  async evalRRaw(
+    code: string,
+    outputType: 'matrix' | 'matrix:row-major',
+    options?: EvalROptions
+  ): Promise<EvalRRawMatrix>;
+  async evalRRaw(
+    code: string,
+    outputType: 'data.frame',
+    options?: EvalROptions
+  ): Promise<EvalRRawDataFrame>;
+  async evalRRaw(code: string, outputType: 'json', options?: EvalROptions): Promise<string>;
   async evalRRaw(code: string, outputType: EvalRMessageOutputType, options: EvalROptions = {}) {
-    const opts = replaceInObject(options, isRObject, (obj: RObject) => obj._payload);
+    const { opts, reqOpts } = splitEvalROptions(options);
     const msg: EvalRMessageRaw = {
       type: 'evalRRaw',
-      data: { code: code, options: opts as EvalROptions, outputType: outputType },
+      data: { code: code, options: opts, outputType: outputType },
     };
-    const payload = await this.#chan.request(msg);
+    const payload = await this.#chan.request(msg, undefined, reqOpts);
 
     switch (payload.payloadType) {
       case 'raw':
@@ -513,11 +1091,64 @@ export class WebR {
       const payload = await this.#chan.request(msg);
       return payload.obj as FSNode;
     },
+    stat: async (path: string): Promise<FSStat> => {
+      const msg: FSMessage = { type: 'stat', data: { path } };
+      const payload = await this.#chan.request(msg);
+      return payload.obj as FSStat;
+    },
+    lstat: async (path: string): Promise<FSStat> => {
+      const msg: FSMessage = { type: 'lstat', data: { path } };
+      const payload = await this.#chan.request(msg);
+      return payload.obj as FSStat;
+    },
+    readdir: async (path: string): Promise<string[]> => {
+      const msg: FSMessage = { type: 'readdir', data: { path } };
+      const payload = await this.#chan.request(msg);
+      return payload.obj as string[];
+    },
+    readlink: async (path: string): Promise<string> => {
+      const msg: FSMessage = { type: 'readlink', data: { path } };
+      const payload = await this.#chan.request(msg);
+      return payload.obj as string;
+    },
     mkdir: async (path: string): Promise<FSNode> => {
       const msg: FSMessage = { type: 'mkdir', data: { path } };
       const payload = await this.#chan.request(msg);
       return payload.obj as FSNode;
     },
+    mkdirTree: async (path: string): Promise<void> => {
+      const msg: FSMessage = { type: 'mkdirTree', data: { path } };
+      await this.#chan.request(msg);
+    },
+    copy: async (src: string, dst: string, options: FSCopyOptions = {}): Promise<void> => {
+      const { recursive = false } = options;
+      const msg: FSCopyMessage = { type: 'copy', data: { src, dst, recursive } };
+      await this.#chan.request(msg);
+    },
+    remove: async (path: string, options: FSRemoveOptions = {}): Promise<void> => {
+      const { recursive = false } = options;
+      const msg: FSRemoveMessage = { type: 'remove', data: { path, recursive } };
+      await this.#chan.request(msg);
+    },
+    glob: async (pattern: string): Promise<string[]> => {
+      const msg: FSMessage = { type: 'glob', data: { path: pattern } };
+      const payload = await this.#chan.request(msg);
+      return payload.obj as string[];
+    },
+    exportArchive: async (path: string, format: FSArchiveFormat = 'zip'): Promise<Uint8Array> => {
+      const msg: FSExportArchiveMessage = { type: 'exportArchive', data: { path, format } };
+      const payload = await this.#chan.request(msg);
+      return payload.obj as Uint8Array;
+    },
+    importArchive: async (data: Blob | ArrayBufferView, mountpoint: string): Promise<string[]> => {
+      // Convert blobs to Uint8Array for transfer over the communication channel
+      const bytes = data instanceof Blob
+        ? new Uint8Array(await data.arrayBuffer())
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+      const msg: FSImportArchiveMessage = { type: 'importArchive', data: { data: bytes, mountpoint } };
+      const payload = await this.#chan.request(msg);
+      return payload.obj as string[];
+    },
     mount: async <T extends FSType>(
       type: T,
       options: FSMountOptions<T>,
@@ -552,6 +1183,7 @@ export class WebR {
 
       const msg: FSMountMessage = { type: 'mount', data: { type, options, mountpoint } };
       await this.#chan.request(msg);
+      this.#mounts.push(msg.data);
     },
     syncfs: async (populate: boolean): Promise<void> => {
       const msg: FSSyncfsMessage = { type: 'syncfs', data: { populate } };
@@ -562,6 +1194,15 @@ export class WebR {
       const payload = await this.#chan.request(msg);
       return payload.obj as Uint8Array;
     },
+    createReadStream: (path: string, options: FSReadStreamOptions = {}): ReadableStream<Uint8Array> => {
+      return this.#createReadStream(path, options);
+    },
+    createWriteStream: (
+      path: string,
+      options: FSWriteStreamOptions = {}
+    ): WritableStream<ArrayBufferView> => {
+      return this.#createWriteStream(path, options);
+    },
     rename: async (oldpath: string, newpath: string): Promise<void> => {
       const msg: FSRenameMessage = { type: 'rename', data: { oldpath, newpath } };
       await this.#chan.request(msg);
@@ -581,15 +1222,138 @@ export class WebR {
     unmount: async (mountpoint: string): Promise<void> => {
       const msg: FSMessage = { type: 'unmount', data: { path: mountpoint } };
       await this.#chan.request(msg);
+      this.#mounts = this.#mounts.filter((mount) => mount.mountpoint !== mountpoint);
+    },
+    watch: (path: string, options: FSWatchOptions = {}): AsyncGenerator<FSWatchEvent, void> => {
+      return this.#watch(path, options);
     },
   };
+
+  #createReadStream(path: string, options: FSReadStreamOptions): ReadableStream<Uint8Array> {
+    const { chunkSize = FS_STREAM_CHUNK_SIZE, start = 0, end = Infinity } = options;
+    let id: string;
+    let position = start;
+
+    // Only a single chunk is requested ahead of the stream's consumer
+    return new ReadableStream<Uint8Array>({
+      start: async () => {
+        id = await this.#openStream(path, 'r');
+      },
+      pull: async (controller) => {
+        try {
+          const length = Math.min(chunkSize, end - position);
+          let data = new Uint8Array(0);
+          if (length > 0) {
+            const msg: FSReadStreamMessage = { type: 'readStream', data: { id, position, length } };
+            data = (await this.#chan.request(msg)).obj as Uint8Array;
+          }
+          if (data.length === 0) {
+            await this.#closeStream(id);
+            controller.close();
+            return;
+          }
+          position += data.length;
+          controller.enqueue(data);
+        } catch (e) {
+          await this.#closeStream(id).catch(() => undefined);
+          throw e;
+        }
+      },
+      cancel: () => this.#closeStream(id),
+    });
+  }
+
+  #createWriteStream(path: string, options: FSWriteStreamOptions): WritableStream<ArrayBufferView> {
+    const { chunkSize = FS_STREAM_CHUNK_SIZE, start } = options;
+    let id: string;
+    let position = start ?? 0;
+
+    return new WritableStream<ArrayBufferView>({
+      start: async () => {
+        id = await this.#openStream(path, start === undefined ? 'w' : 'r+');
+      },
+      write: async (chunk) => {
+        const bytes = new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+        for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+          // Copy each chunk, so that it can be transferred to the worker
+          const data = bytes.slice(offset, offset + chunkSize);
+          const msg: FSWriteStreamMessage = { type: 'writeStream', data: { id, position, data } };
+          await this.#chan.request(msg, [data.buffer]);
+          position += data.length;
+        }
+      },
+      close: () => this.#closeStream(id),
+      abort: () => this.#closeStream(id),
+    });
+  }
+
+  async #openStream(path: string, flags: string): Promise<string> {
+    const msg: FSOpenStreamMessage = { type: 'openStream', data: { path, flags } };
+    const payload = await this.#chan.request(msg);
+    return payload.obj as string;
+  }
+
+  async #closeStream(id: string): Promise<void> {
+    const msg: FSCloseStreamMessage = { type: 'closeStream', data: { id } };
+    await this.#chan.request(msg);
+  }
+
+  async *#watch(path: string, options: FSWatchOptions): AsyncGenerator<FSWatchEvent, void> {
+    const { recursive = false, signal } = options;
+    if (signal?.aborted) {
+      return;
+    }
+
+    const chan = this.#chan;
+    const msg: FSWatchMessage = { type: 'watch', data: { path, recursive } };
+    const id = (await chan.request(msg)).obj as string;
+
+    const events = new AsyncQueue<FSWatchEvent | null>();
+    const stop = () => events.put(null);
+    this.#watchers.set(id, events);
+    signal?.addEventListener('abort', stop);
+
+    try {
+      for (; ;) {
+        const event = await events.get();
+        if (!event) {
+          return;
+        }
+        yield event;
+      }
+    } finally {
+      signal?.removeEventListener('abort', stop);
+      this.#watchers.delete(id);
+      // The watcher is already gone if the worker has since been restarted
+      if (chan === this.#chan) {
+        const msg: FSUnwatchMessage = { type: 'unwatch', data: { id } };
+        await chan.request(msg).catch(() => undefined);
+      }
+    }
+  }
 }
 
+/**
+ * An output event emitted by {@link Shelter.streamR} while R code is being
+ * evaluated.
+ *
+ * Lines of `stdout` and `stderr` output are given as strings. Conditions and
+ * the final result are R objects protected by the shelter. Plots are emitted
+ * as images once each page is complete. The `result` event is always last.
+ */
+export type StreamREvent =
+  | { type: 'stdout' | 'stderr'; data: string }
+  | { type: 'message' | 'warning' | 'error'; data: RObject }
+  | { type: 'image'; data: ImageBitmap }
+  | { type: 'result'; data: RObject };
+
 /** WebR shelters provide fine-grained control over the lifetime of R objects. */
 export class Shelter {
   #id = '';
   #chan: ChannelMain;
   #initialised = false;
+  #autoDestroy: boolean;
+  #owner: ProxyOwner = { destroy: (x: RObject) => this.destroy(x) };
 
   RObject!: ReturnType<typeof newRClassProxy<typeof RWorker.RObject, RObject>>;
   RLogical!: ReturnType<typeof newRClassProxy<typeof RWorker.RLogical, RLogical>>;
@@ -600,15 +1364,19 @@ export class Shelter {
   RRaw!: ReturnType<typeof newRClassProxy<typeof RWorker.RRaw, RRaw>>;
   RList!: ReturnType<typeof newRClassProxy<typeof RWorker.RList, RList>>;
   RDataFrame!: ReturnType<typeof newRClassProxy<typeof RWorker.RDataFrame, RDataFrame>>;
+  RArray!: ReturnType<typeof newRClassProxy<typeof RWorker.RArray, RArray>>;
+  RMatrix!: ReturnType<typeof newRClassProxy<typeof RWorker.RMatrix, RMatrix>>;
   RPairlist!: ReturnType<typeof newRClassProxy<typeof RWorker.RPairlist, RPairlist>>;
   REnvironment!: ReturnType<typeof newRClassProxy<typeof RWorker.REnvironment, REnvironment>>;
   RSymbol!: ReturnType<typeof newRClassProxy<typeof RWorker.RSymbol, RSymbol>>;
   RString!: ReturnType<typeof newRClassProxy<typeof RWorker.RString, RString>>;
   RCall!: ReturnType<typeof newRClassProxy<typeof RWorker.RCall, RCall>>;
+  RS4!: ReturnType<typeof newRClassProxy<typeof RWorker.RS4, RS4>>;
 
   /** @internal */
-  constructor(chan: ChannelMain) {
+  constructor(chan: ChannelMain, autoDestroy = false) {
     this.#chan = chan;
+    this.#autoDestroy = autoDestroy;
   }
 
   /** @internal */
@@ -620,21 +1388,27 @@ export class Shelter {
     const msg = { type: 'newShelter' } as NewShelterMessage;
     const payload = await this.#chan.request(msg);
     this.#id = payload.obj as string;
+    if (this.#autoDestroy) {
+      this.#owner.finalizer = new ProxyFinalizer(this.#chan, this.#id);
+    }
 
-    this.RObject = newRClassProxy<typeof RWorker.RObject, RObject>(this.#chan, this.#id, 'object');
-    this.RLogical = newRClassProxy<typeof RWorker.RLogical, RLogical>(this.#chan, this.#id, 'logical');
-    this.RInteger = newRClassProxy<typeof RWorker.RInteger, RInteger>(this.#chan, this.#id, 'integer');
-    this.RDouble = newRClassProxy<typeof RWorker.RDouble, RDouble>(this.#chan, this.#id, 'double');
-    this.RComplex = newRClassProxy<typeof RWorker.RComplex, RComplex>(this.#chan, this.#id, 'complex');
-    this.RCharacter = newRClassProxy<typeof RWorker.RCharacter, RCharacter>(this.#chan, this.#id, 'character');
-    this.RRaw = newRClassProxy<typeof RWorker.RRaw, RRaw>(this.#chan, this.#id, 'raw');
-    this.RList = newRClassProxy<typeof RWorker.RList, RList>(this.#chan, this.#id, 'list');
-    this.RDataFrame = newRClassProxy<typeof RWorker.RDataFrame, RDataFrame>(this.#chan, this.#id, 'dataframe');
-    this.RPairlist = newRClassProxy<typeof RWorker.RPairlist, RPairlist>(this.#chan, this.#id, 'pairlist');
-    this.REnvironment = newRClassProxy<typeof RWorker.REnvironment, REnvironment>(this.#chan, this.#id, 'environment');
-    this.RSymbol = newRClassProxy<typeof RWorker.RSymbol, RSymbol>(this.#chan, this.#id, 'symbol');
-    this.RString = newRClassProxy<typeof RWorker.RString, RString>(this.#chan, this.#id, 'string');
-    this.RCall = newRClassProxy<typeof RWorker.RCall, RCall>(this.#chan, this.#id, 'call');
+    this.RObject = newRClassProxy<typeof RWorker.RObject, RObject>(this.#chan, this.#id, 'object', this.#owner);
+    this.RLogical = newRClassProxy<typeof RWorker.RLogical, RLogical>(this.#chan, this.#id, 'logical', this.#owner);
+    this.RInteger = newRClassProxy<typeof RWorker.RInteger, RInteger>(this.#chan, this.#id, 'integer', this.#owner);
+    this.RDouble = newRClassProxy<typeof RWorker.RDouble, RDouble>(this.#chan, this.#id, 'double', this.#owner);
+    this.RComplex = newRClassProxy<typeof RWorker.RComplex, RComplex>(this.#chan, this.#id, 'complex', this.#owner);
+    this.RCharacter = newRClassProxy<typeof RWorker.RCharacter, RCharacter>(this.#chan, this.#id, 'character', this.#owner);
+    this.RRaw = newRClassProxy<typeof RWorker.RRaw, RRaw>(this.#chan, this.#id, 'raw', this.#owner);
+    this.RList = newRClassProxy<typeof RWorker.RList, RList>(this.#chan, this.#id, 'list', this.#owner);
+    this.RDataFrame = newRClassProxy<typeof RWorker.RDataFrame, RDataFrame>(this.#chan, this.#id, 'dataframe', this.#owner);
+    this.RArray = newRClassProxy<typeof RWorker.RArray, RArray>(this.#chan, this.#id, 'array', this.#owner);
+    this.RMatrix = newRClassProxy<typeof RWorker.RMatrix, RMatrix>(this.#chan, this.#id, 'matrix', this.#owner);
+    this.RPairlist = newRClassProxy<typeof RWorker.RPairlist, RPairlist>(this.#chan, this.#id, 'pairlist', this.#owner);
+    this.REnvironment = newRClassProxy<typeof RWorker.REnvironment, REnvironment>(this.#chan, this.#id, 'environment', this.#owner);
+    this.RSymbol = newRClassProxy<typeof RWorker.RSymbol, RSymbol>(this.#chan, this.#id, 'symbol', this.#owner);
+    this.RString = newRClassProxy<typeof RWorker.RString, RString>(this.#chan, this.#id, 'string', this.#owner);
+    this.RCall = newRClassProxy<typeof RWorker.RCall, RCall>(this.#chan, this.#id, 'call', this.#owner);
+    this.RS4 = newRClassProxy<typeof RWorker.RS4, RS4>(this.#chan, this.#id, 's4', this.#owner);
 
     this.#initialised = true;
   }
@@ -644,10 +1418,12 @@ export class Shelter {
       type: 'shelterPurge',
       data: this.#id,
     };
+    this.#owner.finalizer?.reset();
     await this.#chan.request(msg);
   }
 
   async destroy(x: RObject) {
+    this.#owner.finalizer?.unregister(x);
     const msg: ShelterDestroyMessage = {
       type: 'shelterDestroy',
       data: { id: this.#id, obj: x._payload },
@@ -655,6 +1431,19 @@ export class Shelter {
     await this.#chan.request(msg);
   }
 
+  /*
+   * Release R objects returned in response to a cancelled request. The caller
+   * never receives references to these objects, so they would otherwise stay
+   * protected until the shelter is purged.
+   */
+  #discard(obj: WebRPayloadPtr | WebRPayloadPtr[]) {
+    const msg: ShelterDestroyMessage = {
+      type: 'shelterDestroy',
+      data: { id: this.#id, obj },
+    };
+    this.#chan.request(msg).catch(() => undefined);
+  }
+
   async size(): Promise<number> {
     const msg: ShelterMessage = {
       type: 'shelterSize',
@@ -674,18 +1463,19 @@ export class Shelter {
    * @returns {Promise<RObject>} The result of the computation.
    */
   async evalR(code: string, options: EvalROptions = {}): Promise<RObject> {
-    const opts = replaceInObject(options, isRObject, (obj: RObject) => obj._payload);
+    const { opts, reqOpts } = splitEvalROptions(options);
     const msg: EvalRMessage = {
       type: 'evalR',
-      data: { code: code, options: opts as EvalROptions, shelter: this.#id },
+      data: { code: code, options: opts, shelter: this.#id },
     };
-    const payload = await this.#chan.request(msg);
+    reqOpts.onDiscard = (payload) => this.#discard(payload.obj as WebRPayloadPtr);
+    const payload = await this.#chan.request(msg, undefined, reqOpts);
 
     switch (payload.payloadType) {
       case 'raw':
         throw new WebRPayloadError('Unexpected payload type returned from evalR');
       default:
-        return newRProxy(this.#chan, payload);
+        return newRProxy(this.#chan, payload, this.#owner);
     }
   }
 
@@ -709,16 +1499,25 @@ export class Shelter {
     output: { type: string; data: any }[];
     images: ImageBitmap[];
   }> {
-    const opts = replaceInObject(options, isRObject, (obj: RObject) => obj._payload);
+    const { opts, reqOpts } = splitEvalROptions(options);
     const msg: CaptureRMessage = {
       type: 'captureR',
       data: {
         code: code,
-        options: opts as EvalROptions,
+        options: opts,
         shelter: this.#id,
       },
     };
-    const payload = await this.#chan.request(msg);
+    reqOpts.onDiscard = (payload) => {
+      const data = payload.obj as { result: WebRPayloadPtr; output: { type: string; data: any }[] };
+      this.#discard([
+        data.result,
+        ...data.output
+          .filter((out) => out.type !== 'stdout' && out.type !== 'stderr')
+          .map((out) => out.data as WebRPayloadPtr),
+      ]);
+    };
+    const payload = await this.#chan.request(msg, undefined, reqOpts);
 
     switch (payload.payloadType) {
       case 'ptr':
@@ -730,13 +1529,13 @@ export class Shelter {
           output: { type: string; data: any }[];
           images: ImageBitmap[];
         };
-        const result = newRProxy(this.#chan, data.result);
+        const result = newRProxy(this.#chan, data.result, this.#owner);
         const output = data.output;
         const images = data.images;
 
         for (let i = 0; i < output.length; ++i) {
           if (output[i].type !== 'stdout' && output[i].type !== 'stderr') {
-            output[i].data = newRProxy(this.#chan, output[i].data as WebRPayloadPtr);
+            output[i].data = newRProxy(this.#chan, output[i].data as WebRPayloadPtr, this.#owner);
           }
         }
 
@@ -744,12 +1543,95 @@ export class Shelter {
       }
     }
   }
+  /**
+   * Evaluate the given R code, streaming output as it is produced.
+   *
+   * Stream outputs, conditions and plots are captured as in
+   * {@link Shelter.captureR}, but rather than being returned once evaluation
+   * has finished, each is yielded as an event as soon as it is available.
+   * Once evaluation is complete a final `result` event is yielded. Returned R
+   * objects are protected by the shelter.
+   *
+   * If an error is raised during evaluation, it is yielded as an `error` event
+   * and then thrown by the generator, unless `throwJsException` is `false`.
+   * @param {string} code The R code to evaluate.
+   * @param {EvalROptions} [options] Options for the execution environment.
+   * @yields {Promise<StreamREvent>} Output events, ending with the result.
+   */
+  async *streamR(code: string, options: EvalROptions = {}): AsyncGenerator<StreamREvent, void> {
+    const { opts, reqOpts } = splitEvalROptions(options);
+    const msg: StreamRMessage = {
+      type: 'streamR',
+      data: {
+        code: code,
+        options: opts,
+        shelter: this.#id,
+      },
+    };
+
+    const events = new AsyncQueue<StreamREvent | { type: 'throw'; data: unknown }>();
+    const onEvent = (event: Message) => {
+      const output = event as StreamROutputMessage;
+      switch (output.type) {
+        case 'stdout':
+        case 'stderr':
+          events.put(output);
+          break;
+        case 'canvas':
+          if (output.data.event === 'canvasImage') {
+            events.put({ type: 'image', data: output.data.image });
+          }
+          break;
+        default:
+          events.put({ type: output.type, data: newRProxy(this.#chan, output.data, this.#owner) });
+      }
+    };
+
+    reqOpts.onDiscard = (payload) => this.#discard(payload.obj as WebRPayloadPtr);
+    this.#chan.requestStream(msg, onEvent, reqOpts).then(
+      (payload) => {
+        if (payload.payloadType === 'raw') {
+          events.put({
+            type: 'throw',
+            data: new WebRPayloadError('Unexpected payload type returned from streamR'),
+          });
+          return;
+        }
+        events.put({ type: 'result', data: newRProxy(this.#chan, payload, this.#owner) });
+      },
+      (error) => events.put({ type: 'throw', data: error }),
+    );
+
+    for (; ;) {
+      const event = await events.get();
+      if (event.type === 'throw') {
+        throw event.data;
+      }
+      yield event;
+      if (event.type === 'result') {
+        return;
+      }
+    }
+  }
+}
+
+/*
+ * Separate the request cancellation options, handled by the communication
+ * channel on the main thread, from the options forwarded to the worker.
+ */
+function splitEvalROptions(options: EvalROptions): {
+  opts: EvalROptionsWorker;
+  reqOpts: RequestOptions;
+} {
+  const { signal, timeoutMs, ...rest } = options;
+  const opts = replaceInObject(rest, isRObject, (obj: RObject) => obj._payload);
+  return { opts: opts as EvalROptionsWorker, reqOpts: { signal, timeoutMs } };
 }
 
-function newShelterProxy(chan: ChannelMain) {
+function newShelterProxy(chan: ChannelMain, autoDestroy: boolean) {
   return new Proxy(Shelter, {
     construct: async () => {
-      const out = new Shelter(chan);
+      const out = new Shelter(chan, autoDestroy);
       await out.init();
       return out;
     },
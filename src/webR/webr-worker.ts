@@ -1,39 +1,77 @@
 import { loadScript } from './compat';
 import { ChannelWorker } from './chan/channel';
+import { MessagePortChannelWorker } from './chan/channel-messageport';
 import { newChannelWorker, ChannelInitMessage, ChannelType } from './chan/channel-common';
-import { Message, Request, newResponse } from './chan/message';
-import { FSAnalyzeInfo, FSMountOptions, FSNode, WebROptions } from './webr-main';
+import { Message, Request, newResponse, newStreamMessage } from './chan/message';
+import { FSAnalyzeInfo, FSMountOptions, FSNode, FSStat, WebROptions } from './webr-main';
 import { EmPtr, Module } from './emscripten';
 import { IN_NODE } from './compat';
 import { replaceInObject, throwUnreachable } from './utils';
-import { WebRPayloadRaw, WebRPayloadPtr, WebRPayloadWorker, isWebRPayloadPtr } from './payload';
-import { RPtr, RType, RCtor, WebRData, WebRDataRaw } from './robj';
+import {
+  WebRPayloadRaw,
+  WebRPayloadPtr,
+  WebRPayloadErr,
+  WebRPayloadWorker,
+  isWebRPayloadPtr,
+} from './payload';
+import { RPtr, RType, RCtor, WebRData, WebRDataJs, WebRDataRaw } from './robj';
 import { protect, protectInc, unprotect, parseEvalBare, UnwindProtectException, safeEval } from './utils-r';
 import { generateUUID } from './chan/task-common';
-import { mountFS, mountImageUrl, mountImagePath, mountDriveFS } from './mount';
+import { mountFS, mountImageUrl, mountImagePath, mountImageVFS, mountDriveFS } from './mount';
+import { hookFS, watchFS, unwatchFS } from './watch';
+import { copyFS, globFS, readdirFS, removeFS } from './utils-fs';
+import { exportArchive, importArchive } from './archive';
+import { RConditionInfo, WebRRConditionError } from './error';
+import { WEBR_VERSION } from './config';
 import type { parentPort } from 'worker_threads';
 
 import {
+  AddLocalRepoMessage,
   CallRObjectMethodMessage,
+  CallRObjectPipelineMessage,
   CaptureRMessage,
-  EvalROptions,
+  EvalROptionsWorker,
   EvalRMessage,
   EvalRMessageRaw,
+  EvalRRawDataFrame,
+  EvalRRawMatrix,
   FSMessage,
+  FSCopyMessage,
+  FSRemoveMessage,
+  FSExportArchiveMessage,
+  FSImportArchiveMessage,
   FSReadFileMessage,
   FSMountMessage,
+  FSOpenStreamMessage,
+  FSReadStreamMessage,
+  FSWriteStreamMessage,
+  FSCloseStreamMessage,
+  FSUnwatchMessage,
+  FSWatchMessage,
+  FSWatchEventMessage,
   FSWriteFileMessage,
   InvokeWasmFunctionMessage,
+  JsCallMessage,
   NewRObjectMessage,
   ShelterMessage,
   ShelterDestroyMessage,
+  StreamRMessage,
+  StreamROutputMessage,
   InstallPackagesMessage,
   FSSyncfsMessage,
   FSRenameMessage,
   FSAnalyzePathMessage,
+  InstallPackagesResult,
+  InstallProgressMessage,
+  PipelineCall,
+  RestoreMessage,
+  WebRSnapshot,
+  WebRStats,
+  WebRSnapshotFile,
 } from './webr-chan';
 
 import {
+  RArray,
   RCall,
   RCharacter,
   RComplex,
@@ -43,9 +81,11 @@ import {
   RInteger,
   RList,
   RLogical,
+  RMatrix,
   RObject,
   RPairlist,
   RRaw,
+  RS4,
   RString,
   RSymbol,
   destroy,
@@ -62,8 +102,12 @@ let initialised = false;
 let resolved = false;
 let chan: ChannelWorker | undefined;
 
+// Files opened for chunked reading and writing, by stream ID
+const fsStreams = new Map<string, FS.FSStream>();
+
 // Make webR Worker R objects available in WorkerGlobalScope
 Object.assign(globalThis, {
+  RArray,
   RCall,
   RCharacter,
   RComplex,
@@ -73,9 +117,11 @@ Object.assign(globalThis, {
   RInteger,
   RList,
   RLogical,
+  RMatrix,
   RObject,
   RPairlist,
   RRaw,
+  RS4,
   RString,
   RSymbol,
   destroy,
@@ -103,9 +149,36 @@ const onWorkerMessage = function (msg: Message) {
     initialised = true;
     return;
   }
+  if (msg.type === 'connect') {
+    connectPort((msg.data as { port: MessagePort }).port);
+    return;
+  }
   chan?.onMessageFromMainThread(msg);
 };
 
+/*
+ * With the MessagePort channel, each main thread connects to the worker over
+ * its own MessagePort. Ports are received either through a `connect` message
+ * sent to a dedicated worker, or as connections to a SharedWorker. The first
+ * `init` message received over a port starts R, later connections share the
+ * running webR session.
+ */
+const connectPort = function (port: MessagePort) {
+  port.onmessage = (ev: MessageEvent<Message>) => {
+    const msg = ev.data as ChannelInitMessage;
+    if (!msg || msg.type !== 'init') {
+      return;
+    }
+    if (!initialised && msg.data.channelType === ChannelType.MessagePort) {
+      onWorkerMessage(msg);
+    }
+    if (!(chan instanceof MessagePortChannelWorker)) {
+      throw new Error('Connections over a MessagePort must use the `MessagePort` channel type.');
+    }
+    chan.connect(port);
+  };
+};
+
 if (IN_NODE) {
   const workerThreads = require('worker_threads') as {
     parentPort: typeof parentPort;
@@ -115,6 +188,8 @@ if (IN_NODE) {
     .XMLHttpRequest as XMLHttpRequest;
 } else {
   globalThis.onmessage = (ev: MessageEvent<Message>) => onWorkerMessage(ev.data);
+  // Connections made when running as a SharedWorker
+  (globalThis as any).onconnect = (ev: MessageEvent) => connectPort(ev.ports[0]);
 }
 
 type XHRResponse = {
@@ -131,7 +206,7 @@ function dispatch(msg: Message): void {
       const reqMsg = req.data.msg;
 
       const write = (resp: WebRPayloadWorker, transferables?: [Transferable]) =>
-        chan?.write(newResponse(req.data.uuid, resp, transferables));
+        chan?.write(newResponse(req.data.uuid, resp, transferables), transferables);
       try {
         switch (reqMsg.type) {
           case 'analyzePath': {
@@ -164,6 +239,31 @@ function dispatch(msg: Message): void {
             });
             break;
           }
+          case 'stat':
+          case 'lstat': {
+            const msg = reqMsg as FSMessage;
+            write({
+              obj: statFSNode(msg.data.path, reqMsg.type === 'lstat'),
+              payloadType: 'raw',
+            });
+            break;
+          }
+          case 'readdir': {
+            const msg = reqMsg as FSMessage;
+            write({
+              obj: readdirFS(msg.data.path),
+              payloadType: 'raw',
+            });
+            break;
+          }
+          case 'readlink': {
+            const msg = reqMsg as FSMessage;
+            write({
+              obj: Module.FS.readlink(msg.data.path),
+              payloadType: 'raw',
+            });
+            break;
+          }
           case 'mkdir': {
             const msg = reqMsg as FSMessage;
             write({
@@ -172,6 +272,59 @@ function dispatch(msg: Message): void {
             });
             break;
           }
+          case 'mkdirTree': {
+            const msg = reqMsg as FSMessage;
+            write({
+              obj: Module.FS.mkdirTree(msg.data.path),
+              payloadType: 'raw',
+            });
+            break;
+          }
+          case 'copy': {
+            const msg = reqMsg as FSCopyMessage;
+            write({
+              obj: copyFS(msg.data.src, msg.data.dst, msg.data.recursive),
+              payloadType: 'raw',
+            });
+            break;
+          }
+          case 'remove': {
+            const msg = reqMsg as FSRemoveMessage;
+            write({
+              obj: removeFS(msg.data.path, msg.data.recursive),
+              payloadType: 'raw',
+            });
+            break;
+          }
+          case 'glob': {
+            const msg = reqMsg as FSMessage;
+            write({
+              obj: globFS(msg.data.path),
+              payloadType: 'raw',
+            });
+            break;
+          }
+          case 'exportArchive': {
+            const msg = reqMsg as FSExportArchiveMessage;
+            const out = {
+              obj: exportArchive(msg.data.path, msg.data.format),
+              payloadType: 'raw',
+            };
+            write(out as WebRPayloadRaw, [out.obj.buffer]);
+            break;
+          }
+          case 'importArchive': {
+            const msg = reqMsg as FSImportArchiveMessage;
+            const { data, mountpoint } = msg.data;
+            if (!(data instanceof Uint8Array)) {
+              throw new Error("Can't import archive, expected a `Uint8Array`.");
+            }
+            write({
+              obj: importArchive(data, mountpoint),
+              payloadType: 'raw',
+            });
+            break;
+          }
           case 'mount': {
             const msg = reqMsg as FSMountMessage;
             const type = msg.data.type;
@@ -244,6 +397,50 @@ function dispatch(msg: Message): void {
             });
             break;
           }
+          case 'openStream': {
+            const msg = reqMsg as FSOpenStreamMessage;
+            const id = generateUUID();
+            fsStreams.set(id, Module.FS.open(msg.data.path, msg.data.flags));
+            write({
+              obj: id,
+              payloadType: 'raw',
+            });
+            break;
+          }
+          case 'readStream': {
+            const msg = reqMsg as FSReadStreamMessage;
+            const { id, position, length } = msg.data;
+            const buf = new Uint8Array(length);
+            const bytes = Module.FS.read(getFSStream(id), buf, 0, length, position);
+            const out = {
+              obj: bytes < length ? buf.slice(0, bytes) : buf,
+              payloadType: 'raw',
+            };
+            write(out as WebRPayloadRaw, [out.obj.buffer]);
+            break;
+          }
+          case 'writeStream': {
+            const msg = reqMsg as FSWriteStreamMessage;
+            const { id, data, position } = msg.data;
+            if (!(data instanceof Uint8Array)) {
+              throw new Error("Can't write to file stream, expected a `Uint8Array`.");
+            }
+            write({
+              obj: Module.FS.write(getFSStream(id), data, 0, data.length, position),
+              payloadType: 'raw',
+            });
+            break;
+          }
+          case 'closeStream': {
+            const msg = reqMsg as FSCloseStreamMessage;
+            const stream = fsStreams.get(msg.data.id);
+            fsStreams.delete(msg.data.id);
+            write({
+              obj: stream ? Module.FS.close(stream) : undefined,
+              payloadType: 'raw',
+            });
+            break;
+          }
           case 'unlink': {
             const msg = reqMsg as FSMessage;
             write({
@@ -260,6 +457,24 @@ function dispatch(msg: Message): void {
             });
             break;
           }
+          case 'watch': {
+            const msg = reqMsg as FSWatchMessage;
+            const id = generateUUID();
+            watchFS(id, msg.data.path, msg.data.recursive);
+            write({
+              obj: id,
+              payloadType: 'raw',
+            });
+            break;
+          }
+          case 'unwatch': {
+            const msg = reqMsg as FSUnwatchMessage;
+            write({
+              obj: unwatchFS(msg.data.id),
+              payloadType: 'raw',
+            });
+            break;
+          }
 
           case 'newShelter': {
             const id = generateUUID();
@@ -290,7 +505,8 @@ function dispatch(msg: Message): void {
 
           case 'shelterDestroy': {
             const msg = reqMsg as ShelterDestroyMessage;
-            destroy(msg.data.id, msg.data.obj.obj.ptr);
+            const objs = Array.isArray(msg.data.obj) ? msg.data.obj : [msg.data.obj];
+            objs.forEach((obj) => destroy(msg.data.id, obj.obj.ptr));
 
             write({ payloadType: 'raw', obj: null });
             break;
@@ -359,6 +575,60 @@ function dispatch(msg: Message): void {
             break;
           }
 
+          case 'streamR': {
+            const msg = reqMsg as StreamRMessage;
+            const data = msg.data;
+
+            const shelter = data.shelter;
+            const prot = { n: 0 };
+
+            const emit = (event: StreamROutputMessage, transfer?: [Transferable]) =>
+              chan?.write(newStreamMessage(req.data.uuid, event), transfer);
+
+            try {
+              const capture = captureR(data.code, data.options, {
+                output: (type, data) => {
+                  if (type === 'stdout' || type === 'stderr') {
+                    emit({ type, data: (data as RString).toString() });
+                    return;
+                  }
+                  keep(shelter, data);
+                  emit({
+                    type: type as 'message' | 'warning' | 'error',
+                    data: {
+                      obj: {
+                        ptr: data.ptr,
+                        type: data.type(),
+                        methods: RObject.getMethods(data),
+                      },
+                      payloadType: 'ptr',
+                    },
+                  });
+                },
+                image: (id, image) => {
+                  emit({ type: 'canvas', data: { event: 'canvasImage', image, id } }, [image]);
+                },
+              });
+              protectInc(capture.result, prot);
+              protectInc(capture.output, prot);
+
+              const result = capture.result;
+              keep(shelter, result);
+
+              write({
+                payloadType: 'ptr',
+                obj: {
+                  ptr: result.ptr,
+                  type: result.type(),
+                  methods: RObject.getMethods(result),
+                },
+              });
+            } finally {
+              unprotect(prot.n);
+            }
+            break;
+          }
+
           case 'evalR': {
             const msg = reqMsg as EvalRMessage;
 
@@ -471,10 +741,64 @@ function dispatch(msg: Message): void {
                       throwType();
                   }
                   break;
+                case 'Float64Array':
+                  switch (result.type()) {
+                    case 'logical':
+                    case 'integer':
+                    case 'double': {
+                      const vec = result as RLogical | RInteger | RDouble;
+                      if (vec.detectMissing().some((m) => m)) {
+                        throwType();
+                      }
+                      out = Float64Array.from(vec.toTypedArray());
+                      break;
+                    }
+                    default:
+                      throwType();
+                  }
+                  break;
+                case 'Int32Array':
+                  switch (result.type()) {
+                    case 'logical':
+                    case 'integer': {
+                      const vec = result as RLogical | RInteger;
+                      if (vec.detectMissing().some((m) => m)) {
+                        throwType();
+                      }
+                      out = Int32Array.from(vec.toTypedArray());
+                      break;
+                    }
+                    default:
+                      throwType();
+                  }
+                  break;
+                case 'matrix':
+                case 'matrix:row-major':
+                  out = matrixRaw(result, msg.data.outputType, throwType);
+                  break;
+                case 'data.frame':
+                  if (!(result instanceof RList) || !result.isDataFrame()) {
+                    throwType();
+                  }
+                  out = dataFrameRaw(result as RList, throwType);
+                  break;
+                case 'json':
+                  out = JSON.stringify(jsonRaw(result, throwType));
+                  break;
                 default:
                   throw new Error('Unexpected output type in `evalRRaw().');
               }
 
+              // Transfer the underlying buffers of typed array output
+              let data: unknown = out;
+              if (out && typeof out === 'object' && 'data' in out) {
+                data = out.data;
+              }
+              if (data instanceof Float64Array || data instanceof Int32Array) {
+                write({ obj: out, payloadType: 'raw' }, [data.buffer]);
+                break;
+              }
+
               write({
                 obj: out,
                 payloadType: 'raw',
@@ -506,7 +830,15 @@ function dispatch(msg: Message): void {
               keep(data.shelter!, payload.obj.ptr);
             }
 
-            write(payload);
+            write(payload, resultTransferables([payload]));
+            break;
+          }
+
+          case 'callRObjectPipeline': {
+            const msg = reqMsg as CallRObjectPipelineMessage;
+            const data = msg.data;
+            const results = callRObjectPipeline(data.payload, data.objType, data.calls);
+            write({ obj: results, payloadType: 'raw' }, resultTransferables(results));
             break;
           }
 
@@ -523,20 +855,56 @@ function dispatch(msg: Message): void {
           case 'installPackages': {
             const msg = reqMsg as InstallPackagesMessage;
             let pkgs = msg.data.name;
-            let repos = msg.data.options.repos ? msg.data.options.repos : _config.repoUrl;
+            let repos = msg.data.options.repos;
             if (typeof pkgs === "string") pkgs = [pkgs];
             if (typeof repos === "string") repos = [repos];
-            evalR(`webr::install(
+            // Without `repos`, use the default repository and any local repositories
+            const result = evalR(`webr::install(
               c(${pkgs.map((r) => '"' + r + '"').join(',')}),
-              repos = c(${repos.map((r) => '"' + r + '"').join(',')}),
+              repos = ${repos ? `c(${repos.map((r) => '"' + r + '"').join(',')})` : 'NULL'},
               quiet = ${msg.data.options.quiet ? 'TRUE' : 'FALSE'},
               mount = ${msg.data.options.mount ? 'TRUE' : 'FALSE'}
-            )`);
+            )`) as RList;
 
-            write({
-              obj: true,
-              payloadType: 'raw',
-            });
+            protect(result);
+            try {
+              const names = (key: string) => (result.get(key) as RCharacter).toArray()
+                .filter((pkg): pkg is string => pkg !== null);
+              const obj: InstallPackagesResult = {
+                installed: names('installed'),
+                present: names('present'),
+                failed: names('failed'),
+                order: names('order'),
+              };
+              write({ obj, payloadType: 'raw' });
+              break;
+            } finally {
+              unprotect(1);
+            }
+          }
+          case 'addLocalRepo': {
+            const msg = reqMsg as AddLocalRepoMessage;
+            const url = addLocalRepo(msg.data.path, msg.data.files);
+            write({ obj: url, payloadType: 'raw' });
+            break;
+          }
+          case 'snapshot': {
+            const out = snapshot();
+            const transfer = [
+              out.globalEnv.buffer,
+              ...out.files.filter((f) => f.data).map((f) => f.data!.buffer),
+            ] as [Transferable];
+            write({ obj: out, payloadType: 'raw' }, transfer);
+            break;
+          }
+          case 'restore': {
+            const msg = reqMsg as RestoreMessage;
+            restore(msg.data.snapshot);
+            write({ obj: null, payloadType: 'raw' });
+            break;
+          }
+          case 'stats': {
+            write({ obj: stats(), payloadType: 'raw' });
             break;
           }
           default:
@@ -544,13 +912,7 @@ function dispatch(msg: Message): void {
         }
       } catch (_e) {
         const e = _e as Error & { errno?: number };
-        const errorObj = {
-          name: e.name,
-          message: e.message,
-          errno: e.errno,
-          stack: e.stack
-        };
-        write({ payloadType: 'err', obj: errorObj });
+        write(errorPayload(e));
 
         /* Capture continuation token and resume R's non-local transfer.
          * If the exception has reached this point there should no longer be
@@ -569,6 +931,19 @@ function dispatch(msg: Message): void {
   }
 }
 
+function errorPayload(e: Error & { errno?: number }): WebRPayloadErr {
+  return {
+    payloadType: 'err',
+    obj: {
+      name: e.name,
+      message: e.message,
+      errno: e.errno,
+      stack: e.stack,
+      condition: e instanceof WebRRConditionError ? e.toConditionInfo() : undefined,
+    },
+  };
+}
+
 function copyFSNode(obj: FSNode): FSNode {
   const retObj: FSNode = {
     id: obj.id,
@@ -592,6 +967,330 @@ function copyFSNode(obj: FSNode): FSNode {
   return retObj;
 }
 
+/*
+ * Register a local package repository in the VFS, first writing any given
+ * files to the repository directory. The repository is added to the default
+ * repositories used by `webr::install()`, ahead of the remote repository.
+ */
+function addLocalRepo(path: string, files?: { name: string; data: Uint8Array }[]): string {
+  if (files) {
+    Module.FS.mkdirTree(path);
+    files.forEach((file) => {
+      if (!(file.data instanceof Uint8Array)) {
+        throw new Error(`Can't write \`${file.name}\` to local repository, expected a \`Uint8Array\`.`);
+      }
+      Module.FS.writeFile(`${path}/${file.name}`, file.data);
+    });
+  }
+  if (!Module.FS.analyzePath(`${path}/PACKAGES`, false).exists) {
+    throw new Error(`Can't find a \`PACKAGES\` index in local repository \`${path}\`.`);
+  }
+
+  const url = `file://${path.replace(/\/$/, '')}`;
+  evalR('options(webr_pkg_repos = unique(c(url, getOption("webr_pkg_repos"))))', {
+    env: { url },
+  });
+  return url;
+}
+
+function getFSStream(id: string): FS.FSStream {
+  const stream = fsStreams.get(id);
+  if (!stream) {
+    throw new Error("Can't find file stream, the file may have already been closed.");
+  }
+  return stream;
+}
+
+// Copy the metadata of a VFS node, optionally without following symbolic links
+function statFSNode(path: string, dontFollow: boolean): FSStat {
+  const stat = dontFollow ? Module.FS.lstat(path) : Module.FS.stat(path);
+  const mode = stat.mode;
+  let type: FSStat['type'] = 'other';
+  if (Module.FS.isFile(mode)) {
+    type = 'file';
+  } else if (Module.FS.isDir(mode)) {
+    type = 'directory';
+  } else if (Module.FS.isLink(mode)) {
+    type = 'symlink';
+  }
+
+  return {
+    dev: stat.dev,
+    ino: stat.ino,
+    mode,
+    nlink: stat.nlink,
+    uid: stat.uid,
+    gid: stat.gid,
+    rdev: stat.rdev,
+    size: stat.size,
+    blksize: stat.blksize,
+    blocks: stat.blocks,
+    atime: new Date(stat.atime),
+    mtime: new Date(stat.mtime),
+    ctime: new Date(stat.ctime),
+    type,
+  };
+}
+
+/*
+ * Capture the state of the R session: the contents of the global environment,
+ * the attached packages, and the contents of the home directory.
+ */
+function snapshot(): WebRSnapshot {
+  const prot = { n: 0 };
+  try {
+    const globalEnv = evalR('serialize(as.list(globalenv(), all.names = TRUE), NULL)') as RRaw;
+    protectInc(globalEnv, prot);
+    const packages = evalR('.packages()') as RCharacter;
+    protectInc(packages, prot);
+
+    return {
+      version: WEBR_VERSION,
+      globalEnv: Uint8Array.from(globalEnv.toTypedArray()),
+      packages: packages.toArray().filter((pkg): pkg is string => pkg !== null),
+      files: snapshotFiles(_config.homedir),
+    };
+  } finally {
+    unprotect(prot.n);
+  }
+}
+
+/*
+ * Report the size of the WebAssembly heap, R's heap usage and the number of
+ * objects protected by each shelter. Queue depths are added by the main thread.
+ */
+function stats(): Omit<WebRStats, 'queues'> {
+  // Columns of the `gc()` matrix are used, (Mb), gc trigger, (Mb), ...
+  const gc = (evalR('as.vector(gc()[, 1:4])') as RDouble).toArray() as number[];
+  const sizes: { [id: string]: number } = {};
+  shelters.forEach((ptrs, id) => { sizes[id] = ptrs.length; });
+
+  return {
+    heapSize: Module.HEAPU8.buffer.byteLength,
+    // The heap growth limit, set by `MAXIMUM_MEMORY` in R/Makefile
+    heapMax: 2 ** 31,
+    Ncells: { used: gc[0], usedMb: gc[2], trigger: gc[4], triggerMb: gc[6] },
+    Vcells: { used: gc[1], usedMb: gc[3], trigger: gc[5], triggerMb: gc[7] },
+    shelters: sizes,
+  };
+}
+
+function snapshotFiles(dir: string, base = dir): WebRSnapshotFile[] {
+  const files: WebRSnapshotFile[] = [];
+  Module.FS.readdir(dir).forEach((name) => {
+    if (name === '.' || name === '..') {
+      return;
+    }
+    const path = `${dir}/${name}`;
+    const relPath = path.substring(base.length + 1);
+    const mode = Module.FS.lstat(path).mode;
+
+    if (Module.FS.isLink(mode)) {
+      files.push({ path: relPath, type: 'symlink', mode, target: Module.FS.readlink(path) });
+    } else if (Module.FS.isDir(mode)) {
+      // Filesystems mounted within the home directory are not captured
+      const node = Module.FS.lookupPath(path, { follow_mount: false }).node as FSNode;
+      if (node.mounted) {
+        return;
+      }
+      files.push({ path: relPath, type: 'directory', mode });
+      files.push(...snapshotFiles(path, base));
+    } else if (Module.FS.isFile(mode)) {
+      const data = Module.FS.readFile(path, { encoding: 'binary' });
+      files.push({ path: relPath, type: 'file', mode, data });
+    }
+  });
+  return files;
+}
+
+/*
+ * Return the R session to the state captured by `snapshot()`. Attached
+ * packages that are not available are installed from the default package
+ * repository.
+ */
+function restore(snapshot: WebRSnapshot) {
+  const binary = [snapshot.globalEnv, ...snapshot.files
+    .filter((file) => file.type === 'file')
+    .map((file) => file.data)];
+  if (!binary.every((data) => data instanceof Uint8Array)) {
+    throw new Error("Can't restore snapshot, binary contents must be given as `Uint8Array`.");
+  }
+
+  snapshot.files.forEach((file) => {
+    const path = `${_config.homedir}/${file.path}`;
+    switch (file.type) {
+      case 'directory':
+        Module.FS.mkdirTree(path);
+        break;
+      case 'file':
+        Module.FS.writeFile(path, file.data!);
+        break;
+      case 'symlink':
+        if (Module.FS.analyzePath(path, true).exists) {
+          Module.FS.unlink(path);
+        }
+        Module.FS.symlink(file.target ?? '', path);
+        return;
+    }
+    Module.FS.chmod(path, file.mode);
+  });
+
+  const prot = { n: 0 };
+  try {
+    const data = new RRaw(snapshot.globalEnv);
+    protectInc(data, prot);
+    const packages = new RCharacter(snapshot.packages);
+    protectInc(packages, prot);
+
+    evalR(`
+      for (pkg in rev(packages)) {
+        if (!requireNamespace(pkg, quietly = TRUE)) {
+          webr::install(pkg, quiet = TRUE)
+        }
+        library(pkg, character.only = TRUE)
+      }
+      list2env(unserialize(data), envir = globalenv())
+      invisible(NULL)
+    `, { env: { data, packages } });
+  } finally {
+    unprotect(prot.n);
+  }
+}
+
+/*
+ * Conversion helpers for `evalRRaw()` output types. Each helper throws using
+ * the given `throwType` function when the R object cannot be converted.
+ */
+function factorLevels(obj: RObject): string[] | null {
+  const levels = obj.attrs().get('levels');
+  if (obj.type() !== 'integer' || levels.type() !== 'character') {
+    return null;
+  }
+  return (levels as RCharacter).toArray().map((l) => l ?? 'NA');
+}
+
+function atomicRaw(
+  obj: RObject,
+  throwType: () => never
+): (number | null)[] | (boolean | null)[] | (string | null)[] {
+  const levels = factorLevels(obj);
+  if (levels) {
+    return (obj as RInteger).toArray().map((i) => i === null ? null : levels[i - 1]);
+  }
+  switch (obj.type()) {
+    case 'logical':
+      return (obj as RLogical).toArray();
+    case 'integer':
+      return (obj as RInteger).toArray();
+    case 'double':
+      return (obj as RDouble).toArray();
+    case 'character':
+      return (obj as RCharacter).toArray();
+    default:
+      throwType();
+  }
+}
+
+function matrixRaw(
+  obj: RObject,
+  outputType: 'matrix' | 'matrix:row-major',
+  throwType: () => never
+): EvalRRawMatrix {
+  const dimAttr = obj.attrs().get('dim');
+  if (dimAttr.type() !== 'integer' || (dimAttr as RInteger).length !== 2) {
+    throwType();
+  }
+  const [nrow, ncol] = (dimAttr as RInteger).toArray() as [number, number];
+
+  let data: Float64Array | Int32Array | boolean[] | string[];
+  switch (obj.type()) {
+    case 'logical':
+    case 'character': {
+      const arr = (obj as RLogical | RCharacter).toArray();
+      if (arr.some((i) => i === null)) {
+        throwType();
+      }
+      data = arr as boolean[] | string[];
+      break;
+    }
+    case 'integer':
+    case 'double': {
+      const vec = obj as RInteger | RDouble;
+      if (vec.detectMissing().some((m) => m)) {
+        throwType();
+      }
+      data = vec.toTypedArray().slice();
+      break;
+    }
+    default:
+      throwType();
+  }
+
+  if (outputType === 'matrix:row-major') {
+    const colMajor = data;
+    data = data.slice();
+    for (let i = 0; i < nrow; i++) {
+      for (let j = 0; j < ncol; j++) {
+        data[i * ncol + j] = colMajor[j * nrow + i];
+      }
+    }
+    return { dim: [nrow, ncol], order: 'row-major', data };
+  }
+  return { dim: [nrow, ncol], order: 'column-major', data };
+}
+
+function dataFrameRaw(obj: RList, throwType: () => never): EvalRRawDataFrame {
+  const names = obj.names() ?? [];
+  const out: EvalRRawDataFrame = {};
+  for (let i = 0; i < obj.length; i++) {
+    out[names[i] || `V${i + 1}`] = atomicRaw(obj.get(i + 1), throwType);
+  }
+  return out;
+}
+
+/*
+ * Convert an R object into a value that can be represented as JSON. Atomic
+ * vectors become arrays, with missing and non-finite values replaced by
+ * `null`. Fully named lists become objects, other lists become arrays, and
+ * data frames become an array of row objects.
+ */
+function jsonRaw(obj: RObject, throwType: () => never): WebRDataRaw {
+  switch (obj.type()) {
+    case 'null':
+      return null;
+    case 'logical':
+    case 'integer':
+    case 'double':
+    case 'character':
+      return atomicRaw(obj, throwType).map((v) => {
+        return typeof v === 'number' && !Number.isFinite(v) ? null : v;
+      });
+    case 'list': {
+      const list = obj as RList;
+      if (list.isDataFrame()) {
+        const columns = Object.entries(dataFrameRaw(list, throwType));
+        const nrow = columns.length > 0 ? columns[0][1].length : 0;
+        return [...Array(nrow).keys()].map((i) => Object.fromEntries(
+          columns.map(([name, col]) => {
+            const v = col[i];
+            return [name, typeof v === 'number' && !Number.isFinite(v) ? null : v];
+          })
+        ));
+      }
+      const names = list.names();
+      const values = [...Array(list.length).keys()].map((i) => jsonRaw(list.get(i + 1), throwType));
+      if (names && names.every((n) => n)) {
+        return Object.fromEntries(
+          values.map((v, i) => [names[i], v])
+        ) as { [key: string]: WebRDataRaw };
+      }
+      return values;
+    }
+    default:
+      throwType();
+  }
+}
+
 function downloadFileContent(URL: string, headers: Array<string> = []): XHRResponse {
   const request = new XMLHttpRequest();
   request.open('GET', URL, false);
@@ -678,12 +1377,134 @@ function callRObjectMethod(
   return { obj: ret, payloadType: 'raw' };
 }
 
-function captureR(expr: string | RObject, options: EvalROptions = {}): {
+/*
+ * Typed arrays returned by R object methods, such as the Arrow IPC bytes
+ * returned by the `toArrow()` method of a data frame, are transferred to the
+ * main thread rather than copied. Views of WebAssembly memory are never transferred.
+ */
+function resultTransferables(results: WebRPayloadWorker[]): [Transferable] | undefined {
+  const buffers = new Set<ArrayBuffer>();
+  results.forEach((result) => {
+    const obj = result.obj;
+    if (
+      result.payloadType === 'raw' &&
+      ArrayBuffer.isView(obj) &&
+      obj.buffer instanceof ArrayBuffer &&
+      obj.buffer !== Module.HEAPU8.buffer
+    ) {
+      buffers.add(obj.buffer);
+    }
+  });
+  return buffers.size > 0 ? ([...buffers] as [Transferable]) : undefined;
+}
+
+/*
+ * Call a pipeline of R object methods, where each method is called on either
+ * the starting R object, or class when no R object is given, or the result of
+ * an earlier call. Intermediate R
+ * objects are protected until the pipeline completes. A payload is returned
+ * for every call, with errors returned as error payloads so that independent
+ * calls in the pipeline are unaffected.
+ */
+function callRObjectPipeline(
+  payload: WebRPayloadPtr | undefined,
+  objType: RType | RCtor | undefined,
+  calls: PipelineCall[]
+): WebRPayloadWorker[] {
+  const root = payload
+    ? RObject.wrap(payload.obj.ptr)
+    : objType ? getRWorkerClass(objType) : RObject;
+  const prot = { n: 0 };
+  const results: WebRPayloadWorker[] = [];
+  try {
+    calls.forEach((call) => {
+      try {
+        let obj: RObject | typeof RObject = root;
+        if (call.target >= 0) {
+          const target = results[call.target];
+          if (target.payloadType === 'err') {
+            throw new Error(`Can't call \`${call.prop}\`, an earlier call in the pipeline failed.`);
+          }
+          if (!isWebRPayloadPtr(target.obj)) {
+            throw new Error(`Can't call \`${call.prop}\` on a result that is not an R object.`);
+          }
+          obj = RObject.wrap(target.obj.obj.ptr);
+        }
+
+        const result = callRObjectMethod(obj, call.prop, call.args);
+        if (isWebRPayloadPtr(result.obj)) {
+          protectInc(result.obj.obj.ptr, prot);
+        }
+        results.push(result);
+      } catch (e) {
+        if (e instanceof UnwindProtectException) {
+          throw e;
+        }
+        results.push(errorPayload(e as Error));
+      }
+    });
+    return results;
+  } finally {
+    unprotect(prot.n);
+  }
+}
+
+/*
+ * Callbacks used to forward captured output while R code is still being
+ * evaluated. Conditions are passed as R objects, and each captured plot page is
+ * passed along with its canvas ID once the page is complete.
+ */
+interface CaptureRStream {
+  output: (type: string, data: RObject) => void;
+  image: (id: number, image: ImageBitmap) => void;
+}
+
+/*
+ * Extract the details of a captured R condition, given an output element of
+ * the form `list(type, data, traceback)` as returned by `webr::eval_r()`.
+ */
+function conditionInfo(out: RObject): RConditionInfo {
+  const cnd = out.get('data');
+  const call = cnd.get('call') as RCall;
+  const message = cnd.get('message');
+  const traceback = out.get('traceback');
+
+  const fields: RConditionInfo['fields'] = {};
+  for (const name of cnd.names() ?? []) {
+    if (!name || name === 'message' || name === 'call') {
+      continue;
+    }
+    const field = cnd.get(name);
+    if (field.type() === 'environment') {
+      continue;
+    }
+    try {
+      fields[name] = field.toJs();
+    } catch (e) {
+      // Skip fields that cannot be converted to JS, such as functions
+    }
+  }
+
+  return {
+    class: cnd.class().toArray() as string[],
+    call: call.type() === 'call' ? call.deparse() : null,
+    message: message.type() === 'character'
+      ? (message as RCharacter).toString() : 'An error occurred evaluating R code.',
+    traceback: traceback.isNull() ? [] : (traceback as RCharacter).toArray() as string[],
+    fields,
+  };
+}
+
+function captureR(
+  expr: string | RObject,
+  options: EvalROptionsWorker = {},
+  stream?: CaptureRStream,
+): {
   result: RObject,
   output: RList,
   images: ImageBitmap[],
 } {
-  const _options: Required<EvalROptions> = Object.assign(
+  const _options: Required<EvalROptionsWorker> = Object.assign(
     {
       env: objs.globalEnv,
       captureStreams: true,
@@ -705,6 +1526,17 @@ function captureR(expr: string | RObject, options: EvalROptions = {}): {
   // Set the session as non-interactive
   Module.setValue(Module._R_Interactive, 0, 'i8');
 
+  // When streaming, a captured plot page is emitted once the next page starts
+  // or evaluation has finished
+  const { handleOutput, handleCanvasPage } = Module.webr;
+  let streamPage: number | undefined;
+  const emitStreamPage = () => {
+    if (stream && streamPage !== undefined) {
+      stream.image(streamPage, Module.webr.canvas[streamPage].offscreen.transferToImageBitmap());
+      streamPage = undefined;
+    }
+  };
+
   try {
     const envObj = new REnvironment(_options.env);
     protectInc(envObj, prot);
@@ -756,6 +1588,31 @@ function captureR(expr: string | RObject, options: EvalROptions = {}): {
     );
     protectInc(call, prot);
 
+    if (stream) {
+      // Forward output events to JS as they are captured by `webr::eval_r()`
+      const emitFn = parseEvalBare(`function(elt) {
+        webr::eval_js(paste0("Module.webr.handleOutput(", webr:::obj_address(elt), ")"))
+      }`, objs.baseEnv);
+      protectInc(emitFn, prot);
+
+      const args = Module._Rf_allocList(2);
+      Module._SETCAR(args, envObj.ptr);
+      Module._SETCAR(Module._CDR(args), emitFn.ptr);
+      Module._Rf_listAppend(call, args);
+
+      Module.webr.handleOutput = (ptr: RPtr) => {
+        const out = RList.wrap(ptr);
+        stream.output(out.get('type').toString(), out.get('data'));
+      };
+      Module.webr.handleCanvasPage = (id: number) => {
+        emitStreamPage();
+        streamPage = id;
+      };
+    } else {
+      // Don't let an outer streaming evaluation take this call's plot pages
+      Module.webr.handleCanvasPage = undefined;
+    }
+
     // Evaluate the given expression
     const capture = RList.wrap(safeEval(call, envObj));
     protectInc(capture, prot);
@@ -767,25 +1624,30 @@ function captureR(expr: string | RObject, options: EvalROptions = {}): {
         (out) => out.get('type').toString() === 'error'
       );
       if (error) {
-        const call = error.pluck('data', 'call') as RCall;
-        const source = call && call.type() === 'call' ? `\`${call.deparse()}\`` : 'unknown source';
-        const message = error.pluck('data', 'message')?.toString() || 'An error occurred evaluating R code.';
-        throw new Error(`Error in ${source}: ${message}`);
+        const condition = conditionInfo(error);
+        const source = condition.call ? `\`${condition.call}\`` : 'unknown source';
+        throw new WebRRConditionError(`Error in ${source}: ${condition.message}`, condition);
       }
     }
 
     let images: ImageBitmap[] = [];
+    if (stream) {
+      emitStreamPage();
+    }
     if (_options.captureGraphics) {
-      // Find new plots after evaluating the given expression
+      // Find new plots after evaluating the given expression, so that their
+      // cache entries are destroyed even if already streamed as images
       const plots = parseEvalBare(`{
         new_cache <- webr::canvas_cache()
         plots <- setdiff(new_cache, old_cache)
       }`, devEnvObj) as RInteger;
       protectInc(plots, prot);
 
-      images = plots.toArray().map((idx) => {
-        return Module.webr.canvas[idx!].offscreen.transferToImageBitmap();
-      });
+      if (!stream) {
+        images = plots.toArray().map((idx) => {
+          return Module.webr.canvas[idx!].offscreen.transferToImageBitmap();
+        });
+      }
     }
 
     // Build the capture object to be returned to the caller
@@ -797,6 +1659,8 @@ function captureR(expr: string | RObject, options: EvalROptions = {}): {
   } finally {
     // Restore the session's interactive status
     Module.setValue(Module._R_Interactive, _config.interactive ? 1 : 0, 'i8');
+    Module.webr.handleOutput = handleOutput;
+    Module.webr.handleCanvasPage = handleCanvasPage;
 
     // Close the device and destroy newly created canvas cache entries
     const newDev = devEnvObj.get('new_dev');
@@ -811,7 +1675,7 @@ function captureR(expr: string | RObject, options: EvalROptions = {}): {
   }
 }
 
-function evalR(expr: string | RObject, options: EvalROptions = {}): RObject {
+function evalR(expr: string | RObject, options: EvalROptionsWorker = {}): RObject {
   // Defaults for evalR that should differ from the defaults in captureR
   options = Object.assign({
     captureGraphics: false
@@ -897,6 +1761,12 @@ function init(config: Required<WebROptions>) {
     // Hook Emscripten's FS.mount() to handle ArrayBuffer data from the channel
     Module.FS._mount = Module.FS.mount;
     Module.FS.mount = mountFS;
+
+    // Hook Emscripten's FS functions to report changes to watched paths
+    hookFS((watchers, event) => {
+      const msg: FSWatchEventMessage = { type: 'fsWatchEvent', data: { watchers, event } };
+      chan?.write(msg);
+    });
   });
 
   chan?.setDispatchHandler(dispatch);
@@ -967,6 +1837,51 @@ function init(config: Required<WebROptions>) {
       return 0;
     },
 
+    /* Call a function registered on the main thread, blocking R until the
+     * result is returned. Invoked by `webr::js_call()` through `evalJs()`,
+     * which converts any error thrown here into an R error condition.
+     */
+    jsCall: (ptr: RPtr): RObject => {
+      if (!chan) {
+        throw new Error("Can't call JavaScript functions without a communication channel");
+      }
+      const call = RList.wrap(ptr);
+      const name = (call.get('name') as RCharacter).toString();
+      const args = (call.get('args') as RList).toJs().values as WebRDataJs[];
+
+      const msg: JsCallMessage = { type: 'jsCall', data: { name, args } };
+      const response = chan.syncRequest(msg) as WebRPayloadWorker;
+      if (response.payloadType === 'err') {
+        throw new Error(
+          `Error in JavaScript function \`${name}\`: ${response.obj.message}`
+        );
+      }
+      return new RObject(replaceInObject(response.obj, isWebRPayloadPtr, (t: WebRPayloadPtr) =>
+        RObject.wrap(t.obj.ptr)
+      ) as WebRData);
+    },
+
+    // Write a package installation progress event, given as an R list by
+    // `webr::install()`, to the output queue
+    installProgress: (ptr: RPtr) => {
+      const event = RList.wrap(ptr);
+      const bytes = event.get('bytes');
+      const status = event.get('status');
+      const msg: InstallProgressMessage = {
+        type: 'installProgress',
+        data: {
+          stage: (event.get('stage') as RCharacter).toString() as InstallProgressMessage['data']['stage'],
+          packages: (event.get('packages') as RCharacter).toArray()
+            .filter((pkg): pkg is string => pkg !== null),
+          bytes: bytes.isNull() ? undefined : (bytes as RDouble).toNumber() ?? undefined,
+          status: status.isNull()
+            ? undefined
+            : (status as RCharacter).toString() as InstallProgressMessage['data']['status'],
+        },
+      };
+      chan?.write(msg);
+    },
+
     setTimeoutWasm: (ptr: EmPtr, delay: number, ...args: number[]): void => {
       chan?.writeSystem({ type: 'setTimeoutWasm', data: { ptr, delay, args } });
     },
@@ -976,6 +1891,7 @@ function init(config: Required<WebROptions>) {
   Module.downloadFileContent = downloadFileContent;
   Module.mountImageUrl = mountImageUrl;
   Module.mountImagePath = mountImagePath;
+  Module.mountImageVFS = mountImageVFS;
   Module.mountDriveFS = mountDriveFS;
 
   Module.print = (text: string) => {